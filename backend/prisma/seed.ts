@@ -76,6 +76,26 @@ async function main() {
     { name: 'sales_instance.create', displayName: 'Create Sales Instances', resource: 'sales_instance', action: 'create' },
     { name: 'sales_instance.update', displayName: 'Update Sales Instances', resource: 'sales_instance', action: 'update' },
     
+    // Order permissions
+    { name: 'order.place', displayName: 'Place Orders', resource: 'order', action: 'place' },
+    { name: 'order.manage', displayName: 'Manage Orders', resource: 'order', action: 'manage' },
+    
+    // Inventory permissions
+    { name: 'inventory.manage', displayName: 'Manage Inventory', resource: 'inventory', action: 'manage' },
+    
+    // Purchasing permissions
+    { name: 'catalog.manage', displayName: 'Manage Supplier Catalog', resource: 'catalog', action: 'manage' },
+    { name: 'purchase_order.manage', displayName: 'Manage Purchase Orders', resource: 'purchase_order', action: 'manage' },
+    { name: 'purchase_order.fulfil', displayName: 'Fulfil Purchase Orders', resource: 'purchase_order', action: 'fulfil' },
+    
+    // Voucher permissions
+    { name: 'voucher.issue', displayName: 'Issue Vouchers', resource: 'voucher', action: 'issue' },
+    { name: 'voucher.redeem', displayName: 'Redeem Vouchers', resource: 'voucher', action: 'redeem' },
+    
+    // Catering permissions
+    { name: 'catering.request', displayName: 'Request Catering', resource: 'catering', action: 'request' },
+    { name: 'catering.manage', displayName: 'Manage Catering', resource: 'catering', action: 'manage' },
+    
     // CRM permissions
     { name: 'crm.view', displayName: 'View CRM Data', resource: 'crm', action: 'view' },
     
@@ -199,7 +219,7 @@ async function main() {
   // ===== ROLE PERMISSIONS =====
   
   // Consumer permissions
-  const consumerPerms = ['event.view', 'event.join', 'menu.view', 'profile.manage.self', 'preferences.manage', 'consent.manage', 'community.interact'];
+  const consumerPerms = ['event.view', 'event.join', 'menu.view', 'profile.manage.self', 'preferences.manage', 'consent.manage', 'community.interact', 'order.place', 'catering.request'];
   for (const permName of consumerPerms) {
     await prisma.rolePermission.upsert({
       where: { roleId_permissionId_scopeId: { roleId: consumerRole.id, permissionId: createdPermissions[permName].id, scopeId: null } },
@@ -209,7 +229,7 @@ async function main() {
   }
 
   // Franchise Owner permissions (organization scope)
-  const franchiseOwnerPerms = ['organization.manage', 'organization.member.add', 'organization.member.remove', 'location.manage', 'menu.manage', 'sales_instance.create', 'sales_instance.update', 'product.create', 'product.update', 'event.manage'];
+  const franchiseOwnerPerms = ['organization.manage', 'organization.member.add', 'organization.member.remove', 'location.manage', 'menu.manage', 'sales_instance.create', 'sales_instance.update', 'event.manage', 'order.manage', 'inventory.manage', 'purchase_order.manage', 'voucher.issue', 'voucher.redeem', 'catering.manage'];
   for (const permName of franchiseOwnerPerms) {
     await prisma.rolePermission.upsert({
       where: { roleId_permissionId_scopeId: { roleId: franchiseOwnerRole.id, permissionId: createdPermissions[permName].id, scopeId: null } },
@@ -218,6 +238,26 @@ async function main() {
     });
   }
 
+  // Operator permissions
+  const operatorPerms = ['order.manage', 'inventory.manage', 'voucher.redeem'];
+  for (const permName of operatorPerms) {
+    await prisma.rolePermission.upsert({
+      where: { roleId_permissionId_scopeId: { roleId: operatorRole.id, permissionId: createdPermissions[permName].id, scopeId: null } },
+      create: { roleId: operatorRole.id, permissionId: createdPermissions[permName].id },
+      update: {},
+    });
+  }
+
+  // Partner Admin permissions (organization scope; supplier staff)
+  const partnerAdminPerms = ['catalog.manage', 'purchase_order.fulfil', 'catering.request'];
+  for (const permName of partnerAdminPerms) {
+    await prisma.rolePermission.upsert({
+      where: { roleId_permissionId_scopeId: { roleId: partnerAdminRole.id, permissionId: createdPermissions[permName].id, scopeId: null } },
+      create: { roleId: partnerAdminRole.id, permissionId: createdPermissions[permName].id },
+      update: {},
+    });
+  }
+
   // Super Admin permissions (all)
   for (const permName of Object.keys(createdPermissions)) {
     await prisma.rolePermission.upsert({
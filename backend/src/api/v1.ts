@@ -1,18 +1,35 @@
 import { Router } from 'express';
+import { rateLimit, RateLimitPolicies } from '../shared/middleware/index.js';
 import { authRoutes } from '../modules/identity/index.js';
 import { organizationRoutes } from '../modules/organization/index.js';
 import { profileRoutes } from '../modules/profile/index.js';
 import { locationRoutes } from '../modules/location/index.js';
 import { productRoutes } from '../modules/product/index.js';
+import { eventRoutes } from '../modules/event/index.js';
+import { orderRoutes } from '../modules/order/index.js';
+import { inventoryRoutes } from '../modules/inventory/index.js';
+import { supplierRoutes, purchaseOrderRoutes } from '../modules/purchasing/index.js';
+import { voucherRoutes } from '../modules/voucher/index.js';
+import { cateringRoutes } from '../modules/catering/index.js';
 
 const router = Router();
 
+// Per-IP baseline limit; sensitive routes add stricter policies
+router.use(rateLimit(RateLimitPolicies.api));
+
 // Mount module routes
 router.use('/auth', authRoutes);
 router.use('/organizations', organizationRoutes);
 router.use('/profile', profileRoutes);
 router.use('/locations', locationRoutes);
 router.use('/products', productRoutes);
+router.use('/events', eventRoutes);
+router.use('/orders', orderRoutes);
+router.use('/inventory', inventoryRoutes);
+router.use('/suppliers', supplierRoutes);
+router.use('/purchase-orders', purchaseOrderRoutes);
+router.use('/vouchers', voucherRoutes);
+router.use('/catering-requests', cateringRoutes);
 
 // Health check
 router.get('/health', (_req, res) => {
@@ -17,6 +17,17 @@ const envSchema = z.object({
 
   // Cookie
   COOKIE_SECRET: z.string().min(32, 'COOKIE_SECRET must be at least 32 characters'),
+
+  // Frontend base URL used in links sent by mail
+  APP_URL: z.string().url().default('http://localhost:5173'),
+
+  // Rate limiting (memory for a single node, postgres when running several)
+  RATE_LIMIT_STORE: z.enum(['memory', 'postgres']).default('memory'),
+
+  // Mail
+  MAIL_TRANSPORT: z.enum(['file', 'memory']).default('file'),
+  MAIL_OUTBOX_DIR: z.string().default('./mail-outbox'),
+  MAIL_FROM: z.string().default('Sabor a mi Tierra <no-reply@saboramitierra.de>'),
 });
 
 function validateEnv() {
@@ -0,0 +1,303 @@
+import { Prisma, CateringStatus, OrganizationType } from '@prisma/client';
+import { prisma } from '../../config/index.js';
+import { createAuditLog, AuditActions } from '../../shared/utils/index.js';
+import {
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  ForbiddenError,
+  hasPermission,
+} from '../../shared/middleware/index.js';
+import { applyProductPrices } from '../product/index.js';
+import type {
+  SubmitCateringRequestInput,
+  QuoteCateringRequestInput,
+  UpdateCateringStatusInput,
+} from './schemas.js';
+import type { AuthenticatedRequest, AuthenticatedUser } from '../../shared/types/index.js';
+
+// Quotes stay open for two weeks unless the franchise says otherwise
+const QUOTE_VALIDITY_DAYS = 14;
+
+// Moves each side may make; a new quote can replace an open one
+const FRANCHISE_TRANSITIONS: Partial<Record<CateringStatus, CateringStatus[]>> = {
+  INQUIRY: [CateringStatus.QUOTED, CateringStatus.DECLINED, CateringStatus.CANCELLED],
+  QUOTED: [CateringStatus.QUOTED, CateringStatus.DECLINED, CateringStatus.CANCELLED],
+  ACCEPTED: [CateringStatus.CONFIRMED, CateringStatus.CANCELLED],
+  CONFIRMED: [CateringStatus.FULFILLED, CateringStatus.CANCELLED],
+};
+
+const REQUESTER_TRANSITIONS: Partial<Record<CateringStatus, CateringStatus[]>> = {
+  INQUIRY: [CateringStatus.CANCELLED],
+  QUOTED: [CateringStatus.ACCEPTED, CateringStatus.DECLINED, CateringStatus.CANCELLED],
+  ACCEPTED: [CateringStatus.CANCELLED],
+};
+
+const TIMESTAMPS: Partial<Record<CateringStatus, 'quotedAt' | 'acceptedAt' | 'confirmedAt' | 'fulfilledAt'>> = {
+  QUOTED: 'quotedAt',
+  ACCEPTED: 'acceptedAt',
+  CONFIRMED: 'confirmedAt',
+  FULFILLED: 'fulfilledAt',
+};
+
+const cateringInclude = {
+  items: { orderBy: { productName: 'asc' as const } },
+  organization: { select: { id: true, name: true } },
+  requesterOrganization: { select: { id: true, name: true } },
+};
+
+type Party = 'franchise' | 'requester';
+
+async function findRequest(requestId: string) {
+  const request = await prisma.cateringRequest.findUnique({
+    where: { id: requestId },
+    include: cateringInclude,
+  });
+  if (!request) throw new NotFoundError('Catering request');
+  return request;
+}
+
+async function findProducts(items: Array<{ productId: string }>) {
+  const products = await prisma.product.findMany({
+    where: { id: { in: items.map(({ productId }) => productId) }, isActive: true, archivedAt: null },
+  });
+  const productsById = new Map(products.map((product) => [product.id, product]));
+
+  const unknown = items.filter(({ productId }) => !productsById.has(productId));
+  if (unknown.length > 0) {
+    throw new ValidationError(
+      'Some products cannot be booked',
+      unknown.map(({ productId }) => ({ productId, reason: 'Not available' }))
+    );
+  }
+
+  return productsById;
+}
+
+export class CateringService {
+  async submit(input: SubmitCateringRequestInput, user: AuthenticatedUser, req?: AuthenticatedRequest) {
+    const franchise = await prisma.organization.findUnique({ where: { id: input.organizationId } });
+    if (!franchise || franchise.type !== OrganizationType.FRANCHISE || !franchise.isActive) {
+      throw new NotFoundError('Franchise');
+    }
+
+    // Partners book on behalf of an organization they belong to
+    if (
+      input.requesterOrganizationId &&
+      !hasPermission(user, { permission: 'catering.request', organizationId: input.requesterOrganizationId })
+    ) {
+      throw new ForbiddenError('You cannot book for this organization');
+    }
+
+    const eventDate = new Date(input.eventDate);
+    if (eventDate <= new Date()) throw new ValidationError('The event date must be in the future');
+
+    const products = await findProducts(input.items);
+
+    const request = await prisma.cateringRequest.create({
+      data: {
+        organizationId: franchise.id,
+        requestedBy: user.id,
+        requesterOrganizationId: input.requesterOrganizationId,
+        contactName: input.contactName,
+        contactEmail: input.contactEmail,
+        contactPhone: input.contactPhone,
+        eventDate,
+        guestCount: input.guestCount,
+        location: input.location,
+        dietaryNeeds: input.dietaryNeeds,
+        notes: input.notes,
+        items: {
+          create: input.items.map((item) => ({
+            productId: item.productId,
+            productName: products.get(item.productId)!.name,
+            quantity: item.quantity,
+            notes: item.notes,
+          })),
+        },
+      },
+      include: cateringInclude,
+    });
+
+    await createAuditLog({
+      userId: user.id,
+      action: AuditActions.CATERING_REQUEST,
+      resource: 'catering_request',
+      resourceId: request.id,
+      metadata: {
+        organizationId: franchise.id,
+        eventDate: eventDate.toISOString(),
+        guestCount: input.guestCount,
+        ...(input.requesterOrganizationId && { requesterOrganizationId: input.requesterOrganizationId }),
+      },
+      req,
+    });
+
+    return request;
+  }
+
+  // Which side of the booking the user is on; requests are invisible to everyone else
+  private partyOf(
+    request: { organizationId: string; requestedBy: string; requesterOrganizationId: string | null },
+    user: AuthenticatedUser
+  ): Party {
+    if (hasPermission(user, { permission: 'catering.manage' }, { organizationId: request.organizationId })) {
+      return 'franchise';
+    }
+
+    const isRequester =
+      request.requestedBy === user.id ||
+      (request.requesterOrganizationId !== null &&
+        hasPermission(user, { permission: 'catering.request', organizationId: request.requesterOrganizationId }));
+    if (isRequester) return 'requester';
+
+    throw new NotFoundError('Catering request');
+  }
+
+  async getRequest(requestId: string, user: AuthenticatedUser) {
+    const request = await findRequest(requestId);
+    this.partyOf(request, user);
+    return request;
+  }
+
+  async listForUser(userId: string) {
+    return prisma.cateringRequest.findMany({
+      where: { requestedBy: userId },
+      include: cateringInclude,
+      orderBy: { eventDate: 'desc' },
+    });
+  }
+
+  async listForOrganization(organizationId: string, status?: CateringStatus[]) {
+    return prisma.cateringRequest.findMany({
+      where: { organizationId, ...(status && { status: { in: status } }) },
+      include: cateringInclude,
+      orderBy: { eventDate: 'asc' },
+    });
+  }
+
+  // Prices the requested products at their current price, plus an optional service fee
+  async quote(requestId: string, input: QuoteCateringRequestInput, user: AuthenticatedUser, req?: AuthenticatedRequest) {
+    const request = await findRequest(requestId);
+    this.assertTransition(request.status, CateringStatus.QUOTED, this.partyOf(request, user));
+
+    const wanted = input.items ?? request.items;
+    if (wanted.length === 0) throw new ValidationError('A quote needs at least one product');
+
+    const products = await findProducts(wanted);
+    const priced = new Map(
+      (await applyProductPrices([...products.values()])).map((product) => [product.id, product])
+    );
+
+    const items = wanted.map((item) => {
+      const product = priced.get(item.productId)!;
+      return {
+        productId: product.id,
+        productName: product.name,
+        quantity: item.quantity,
+        unitPrice: product.price,
+        lineTotal: product.price.mul(item.quantity),
+        notes: item.notes ?? null,
+      };
+    });
+
+    const now = new Date();
+    const serviceFee = input.serviceFee !== undefined ? new Prisma.Decimal(input.serviceFee) : request.serviceFee;
+    const quoteTotal = items.reduce((sum, item) => sum.add(item.lineTotal), serviceFee ?? new Prisma.Decimal(0));
+    const quoteValidUntil = input.validUntil
+      ? new Date(input.validUntil)
+      : new Date(now.getTime() + QUOTE_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+    if (quoteValidUntil <= now) throw new ValidationError('The quote must be valid for some time');
+
+    const quoted = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.cateringRequest.updateMany({
+        where: { id: request.id, status: request.status },
+        data: {
+          status: CateringStatus.QUOTED,
+          serviceFee,
+          quoteTotal,
+          quoteNote: input.note ?? request.quoteNote,
+          quoteValidUntil,
+          quotedAt: now,
+        },
+      });
+      if (count === 0) throw new ConflictError('Catering request changed concurrently, please retry');
+
+      await tx.cateringRequestItem.deleteMany({ where: { cateringRequestId: request.id } });
+      await tx.cateringRequestItem.createMany({
+        data: items.map((item) => ({ ...item, cateringRequestId: request.id })),
+      });
+
+      return tx.cateringRequest.findUniqueOrThrow({ where: { id: request.id }, include: cateringInclude });
+    });
+
+    await createAuditLog({
+      userId: user.id,
+      action: AuditActions.CATERING_QUOTE,
+      resource: 'catering_request',
+      resourceId: request.id,
+      metadata: {
+        from: request.status,
+        quoteTotal: quoteTotal.toString(),
+        quoteValidUntil: quoteValidUntil.toISOString(),
+      },
+      req,
+    });
+
+    return quoted;
+  }
+
+  // Any other step of the workflow; which steps are allowed depends on the side the user is on
+  async updateStatus(
+    requestId: string,
+    input: UpdateCateringStatusInput,
+    user: AuthenticatedUser,
+    req?: AuthenticatedRequest
+  ) {
+    const { status: to, reason } = input;
+    const request = await findRequest(requestId);
+    this.assertTransition(request.status, to, this.partyOf(request, user));
+
+    const now = new Date();
+    if (to === CateringStatus.ACCEPTED && request.quoteValidUntil && request.quoteValidUntil < now) {
+      throw new ConflictError('The quote has expired, please ask for a new one');
+    }
+
+    const timestamp = TIMESTAMPS[to];
+    const { count } = await prisma.cateringRequest.updateMany({
+      where: { id: request.id, status: request.status },
+      data: {
+        status: to,
+        ...(timestamp && { [timestamp]: now }),
+        ...((to === CateringStatus.DECLINED || to === CateringStatus.CANCELLED) && {
+          closeReason: reason ?? null,
+        }),
+      },
+    });
+
+    if (count === 0) {
+      throw new ConflictError('Catering request changed concurrently, please retry');
+    }
+
+    await createAuditLog({
+      userId: user.id,
+      action: AuditActions.CATERING_STATUS_UPDATE,
+      resource: 'catering_request',
+      resourceId: request.id,
+      metadata: { from: request.status, to, ...(reason && { reason }) },
+      req,
+    });
+
+    return findRequest(request.id);
+  }
+
+  private assertTransition(from: CateringStatus, to: CateringStatus, party: Party) {
+    const allowed = (party === 'franchise' ? FRANCHISE_TRANSITIONS : REQUESTER_TRANSITIONS)[from] ?? [];
+
+    if (!allowed.includes(to)) {
+      throw new ConflictError(`Cannot move a ${from.toLowerCase()} request to ${to.toLowerCase()}`);
+    }
+  }
+}
+
+export const cateringService = new CateringService();
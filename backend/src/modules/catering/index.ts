@@ -0,0 +1,3 @@
+export { cateringRoutes } from './routes.js';
+export { cateringService } from './catering.service.js';
+export * from './schemas.js';
@@ -0,0 +1,130 @@
+import { Router } from 'express';
+import type { Response, NextFunction } from 'express';
+import { cateringService } from './catering.service.js';
+import {
+  submitCateringRequestSchema,
+  quoteCateringRequestSchema,
+  updateCateringStatusSchema,
+  cateringListQuerySchema,
+} from './schemas.js';
+import {
+  authenticate,
+  requirePermission,
+  ScopeResolvers,
+  NotFoundError,
+} from '../../shared/middleware/index.js';
+import { prisma } from '../../config/index.js';
+import type { AuthenticatedRequest, ApiResponse, ScopeResolver } from '../../shared/types/index.js';
+
+// Handling franchise of the catering request in the :id route parameter
+const cateringFromParam: ScopeResolver = async (req) => {
+  const request = await prisma.cateringRequest.findUnique({
+    where: { id: String(req.params.id) },
+    select: { organizationId: true },
+  });
+
+  if (!request) throw new NotFoundError('Catering request');
+
+  return { organizationId: request.organizationId };
+};
+
+const router = Router();
+
+// POST /catering-requests
+router.post(
+  '/',
+  authenticate,
+  requirePermission({ permission: 'catering.request' }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = submitCateringRequestSchema.parse(req.body);
+      const request = await cateringService.submit(input, req.user!, req);
+
+      res.status(201).json({ success: true, data: request });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /catering-requests/mine
+router.get(
+  '/mine',
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const requests = await cateringService.listForUser(req.user!.id);
+
+      res.json({ success: true, data: requests });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /catering-requests/organization/:organizationId
+router.get(
+  '/organization/:organizationId',
+  authenticate,
+  requirePermission({ permission: 'catering.manage', resolve: ScopeResolvers.organizationParam('organizationId') }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const { status } = cateringListQuerySchema.parse(req.query);
+      const requests = await cateringService.listForOrganization(String(req.params.organizationId), status);
+
+      res.json({ success: true, data: requests });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /catering-requests/:id
+router.get(
+  '/:id',
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const request = await cateringService.getRequest(String(req.params.id), req.user!);
+
+      res.json({ success: true, data: request });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /catering-requests/:id/quote
+router.post(
+  '/:id/quote',
+  authenticate,
+  requirePermission({ permission: 'catering.manage', resolve: cateringFromParam }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = quoteCateringRequestSchema.parse(req.body);
+      const request = await cateringService.quote(String(req.params.id), input, req.user!, req);
+
+      res.json({ success: true, data: request });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /catering-requests/:id/status
+router.post(
+  '/:id/status',
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = updateCateringStatusSchema.parse(req.body);
+      const request = await cateringService.updateStatus(String(req.params.id), input, req.user!, req);
+
+      res.json({ success: true, data: request });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export const cateringRoutes = router;
@@ -0,0 +1,64 @@
+import { z } from 'zod';
+
+export const CATERING_STATUSES = [
+  'INQUIRY',
+  'QUOTED',
+  'ACCEPTED',
+  'CONFIRMED',
+  'FULFILLED',
+  'DECLINED',
+  'CANCELLED',
+] as const;
+
+const cateringItemsSchema = z
+  .array(
+    z.object({
+      productId: z.string(),
+      quantity: z.number().int().positive().max(10_000),
+      notes: z.string().max(200).optional(),
+    })
+  )
+  .max(100)
+  .refine((items) => new Set(items.map(({ productId }) => productId)).size === items.length, {
+    message: 'Each product can only appear once',
+  });
+
+export const submitCateringRequestSchema = z.object({
+  organizationId: z.string(),
+  requesterOrganizationId: z.string().optional(),
+  contactName: z.string().min(1).max(100),
+  contactEmail: z.string().email(),
+  contactPhone: z.string().max(30).optional(),
+  eventDate: z.string().datetime({ offset: true }),
+  guestCount: z.number().int().positive().max(5000),
+  location: z.string().min(1).max(300),
+  dietaryNeeds: z.array(z.string().min(1).max(100)).max(20).default([]),
+  notes: z.string().max(2000).optional(),
+  items: cateringItemsSchema.default([]),
+});
+
+// Items replace the requested ones when given; prices always come from the products
+export const quoteCateringRequestSchema = z.object({
+  items: cateringItemsSchema.optional(),
+  serviceFee: z.number().min(0).max(100_000).optional(),
+  validUntil: z.string().datetime({ offset: true }).optional(),
+  note: z.string().max(2000).optional(),
+});
+
+// Quoting has its own endpoint; the reason is kept for declines and cancellations
+export const updateCateringStatusSchema = z.object({
+  status: z.enum(['ACCEPTED', 'CONFIRMED', 'FULFILLED', 'DECLINED', 'CANCELLED']),
+  reason: z.string().max(500).optional(),
+});
+
+export const cateringListQuerySchema = z.object({
+  status: z
+    .string()
+    .transform((value) => value.split(','))
+    .pipe(z.array(z.enum(CATERING_STATUSES)))
+    .optional(),
+});
+
+export type SubmitCateringRequestInput = z.infer<typeof submitCateringRequestSchema>;
+export type QuoteCateringRequestInput = z.infer<typeof quoteCateringRequestSchema>;
+export type UpdateCateringStatusInput = z.infer<typeof updateCateringStatusSchema>;
@@ -0,0 +1,437 @@
+import { Router } from 'express';
+import type { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { Prisma, EventRsvpStatus, EventStatus } from '@prisma/client';
+import { prisma } from '../../config/index.js';
+import {
+  authenticate,
+  requirePermission,
+  ScopeResolvers,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+} from '../../shared/middleware/index.js';
+import { createAuditLog, AuditActions, serializableTransaction } from '../../shared/utils/index.js';
+import type { AuthenticatedRequest, ApiResponse, ScopeResolver } from '../../shared/types/index.js';
+
+// Schemas
+const createEventSchema = z.object({
+  organizationId: z.string(),
+  locationId: z.string().optional(),
+  salesInstanceId: z.string().optional(),
+  title: z.string().min(1).max(200),
+  description: z.string().optional(),
+  imageUrl: z.string().url().optional(),
+  categories: z.array(z.string().min(1).max(50)).default([]),
+  capacity: z.number().int().positive().optional(),
+  startsAt: z.string().datetime(),
+  endsAt: z.string().datetime(),
+  status: z.enum(['DRAFT', 'PUBLISHED']).default('DRAFT'),
+  isPublic: z.boolean().default(true),
+});
+
+const updateEventSchema = createEventSchema
+  .omit({ organizationId: true, status: true })
+  .partial()
+  .extend({
+    locationId: z.string().nullable().optional(),
+    salesInstanceId: z.string().nullable().optional(),
+    capacity: z.number().int().positive().nullable().optional(),
+    status: z.enum(['DRAFT', 'PUBLISHED', 'CANCELLED', 'COMPLETED']).optional(),
+  });
+
+const eventListQuerySchema = z.object({
+  organizationId: z.string().optional(),
+  locationId: z.string().optional(),
+  salesInstanceId: z.string().optional(),
+  category: z.string().optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+});
+
+const joinEventSchema = z.object({
+  status: z.enum(['GOING', 'INTERESTED']).default('GOING'),
+});
+
+const eventInclude = {
+  organization: { select: { id: true, name: true, slug: true } },
+  location: true,
+  salesInstance: { select: { id: true, name: true, type: true } },
+  _count: { select: { attendees: { where: { status: EventRsvpStatus.GOING } } } },
+};
+
+// Ensures a linked location / sales instance exists and that the sales
+// instance belongs to the event's organization.
+async function validateEventLinks(
+  organizationId: string,
+  locationId?: string | null,
+  salesInstanceId?: string | null
+): Promise<void> {
+  if (locationId) {
+    const location = await prisma.location.findUnique({ where: { id: locationId } });
+    if (!location) throw new NotFoundError('Location');
+  }
+
+  if (salesInstanceId) {
+    const instance = await prisma.salesInstance.findUnique({ where: { id: salesInstanceId } });
+    if (!instance) throw new NotFoundError('Sales instance');
+    if (instance.organizationId !== organizationId) {
+      throw new ValidationError('Sales instance belongs to a different organization');
+    }
+  }
+}
+
+// Moves waitlisted attendees up, longest-waiting first, while seats are free
+async function promoteWaitlist(tx: Prisma.TransactionClient, eventId: string): Promise<void> {
+  const event = await tx.event.findUniqueOrThrow({ where: { id: eventId }, select: { capacity: true } });
+
+  let freeSeats: number | undefined;
+  if (event.capacity) {
+    const going = await tx.eventAttendee.count({ where: { eventId, status: EventRsvpStatus.GOING } });
+    freeSeats = event.capacity - going;
+    if (freeSeats <= 0) return;
+  }
+
+  const nextInLine = await tx.eventAttendee.findMany({
+    where: { eventId, status: EventRsvpStatus.WAITLISTED },
+    orderBy: { createdAt: 'asc' },
+    take: freeSeats,
+    select: { id: true },
+  });
+
+  if (nextInLine.length > 0) {
+    await tx.eventAttendee.updateMany({
+      where: { id: { in: nextInLine.map(({ id }) => id) } },
+      data: { status: EventRsvpStatus.GOING },
+    });
+  }
+}
+
+// Organization running the event in the :id route parameter
+const eventFromParam: ScopeResolver = async (req) => {
+  const event = await prisma.event.findUnique({
+    where: { id: String(req.params.id) },
+    select: { organizationId: true, salesInstanceId: true },
+  });
+
+  if (!event) throw new NotFoundError('Event');
+
+  return event;
+};
+
+const orgFromBody = ScopeResolvers.organizationBody();
+
+const router = Router();
+
+// GET /events
+router.get(
+  '/',
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const { organizationId, locationId, salesInstanceId, category, from, to } = eventListQuerySchema.parse(
+        req.query
+      );
+
+      const events = await prisma.event.findMany({
+        where: {
+          status: EventStatus.PUBLISHED,
+          isPublic: true,
+          endsAt: { gte: from ? new Date(from) : new Date() },
+          ...(to && { startsAt: { lte: new Date(to) } }),
+          ...(organizationId && { organizationId }),
+          ...(locationId && { locationId }),
+          ...(salesInstanceId && { salesInstanceId }),
+          ...(category && { categories: { has: category } }),
+        },
+        include: eventInclude,
+        orderBy: { startsAt: 'asc' },
+        take: 100,
+      });
+
+      res.json({ success: true, data: events });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /events/mine
+router.get(
+  '/mine',
+  authenticate,
+  requirePermission({ permission: 'event.view' }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const attendance = await prisma.eventAttendee.findMany({
+        where: { userId: req.user!.id },
+        include: { event: { include: eventInclude } },
+        orderBy: { event: { startsAt: 'asc' } },
+      });
+
+      res.json({ success: true, data: attendance });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /events/:id
+router.get(
+  '/:id',
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const event = await prisma.event.findFirst({
+        where: { id: String(req.params.id), status: { not: EventStatus.DRAFT } },
+        include: eventInclude,
+      });
+
+      if (!event) throw new NotFoundError('Event');
+
+      res.json({ success: true, data: event });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /events
+router.post(
+  '/',
+  authenticate,
+  requirePermission(
+    { permission: 'event.create', resolve: orgFromBody },
+    { permission: 'event.manage', resolve: orgFromBody }
+  ),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = createEventSchema.parse(req.body);
+
+      const startsAt = new Date(input.startsAt);
+      const endsAt = new Date(input.endsAt);
+      if (endsAt <= startsAt) {
+        throw new ValidationError('endsAt must be after startsAt');
+      }
+
+      await validateEventLinks(input.organizationId, input.locationId, input.salesInstanceId);
+
+      const event = await prisma.event.create({
+        data: {
+          ...input,
+          startsAt,
+          endsAt,
+          createdBy: req.user!.id,
+        },
+        include: eventInclude,
+      });
+
+      await createAuditLog({
+        userId: req.user!.id,
+        action: AuditActions.EVENT_CREATE,
+        resource: 'event',
+        resourceId: event.id,
+        req,
+      });
+
+      res.status(201).json({ success: true, data: event });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PATCH /events/:id
+router.patch(
+  '/:id',
+  authenticate,
+  requirePermission({ permission: 'event.manage', resolve: eventFromParam }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = updateEventSchema.parse(req.body);
+
+      const existing = await prisma.event.findUnique({ where: { id: String(req.params.id) } });
+      if (!existing) throw new NotFoundError('Event');
+
+      const startsAt = input.startsAt ? new Date(input.startsAt) : existing.startsAt;
+      const endsAt = input.endsAt ? new Date(input.endsAt) : existing.endsAt;
+      if (endsAt <= startsAt) {
+        throw new ValidationError('endsAt must be after startsAt');
+      }
+
+      await validateEventLinks(existing.organizationId, input.locationId, input.salesInstanceId);
+
+      const event = await serializableTransaction(async (tx) => {
+        await tx.event.update({
+          where: { id: existing.id },
+          data: {
+            ...input,
+            startsAt,
+            endsAt,
+          },
+        });
+
+        // A raised or removed capacity frees seats for the waitlist
+        if (input.capacity !== undefined) {
+          await promoteWaitlist(tx, existing.id);
+        }
+
+        return tx.event.findUniqueOrThrow({ where: { id: existing.id }, include: eventInclude });
+      });
+
+      await createAuditLog({
+        userId: req.user!.id,
+        action: AuditActions.EVENT_UPDATE,
+        resource: 'event',
+        resourceId: event.id,
+        metadata: { fields: Object.keys(input) },
+        req,
+      });
+
+      res.json({ success: true, data: event });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /events/:id/attendees
+router.get(
+  '/:id/attendees',
+  authenticate,
+  requirePermission({ permission: 'event.manage', resolve: eventFromParam }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const attendees = await prisma.eventAttendee.findMany({
+        where: { eventId: String(req.params.id) },
+        include: {
+          user: {
+            select: {
+              id: true,
+              email: true,
+              profile: { select: { firstName: true, lastName: true, displayName: true } },
+            },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      // Callers with an "anonymized" grant only see RSVP status, not who responded
+      if (req.anonymized) {
+        res.json({
+          success: true,
+          data: attendees.map(({ id, status, createdAt }) => ({ id, status, createdAt })),
+        });
+        return;
+      }
+
+      res.json({ success: true, data: attendees });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /events/:id/join
+router.post(
+  '/:id/join',
+  authenticate,
+  requirePermission({ permission: 'event.join' }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = joinEventSchema.parse(req.body ?? {});
+      const userId = req.user!.id;
+
+      // Serializable so two concurrent RSVPs cannot both take the last seat
+      const attendee = await serializableTransaction(async (tx) => {
+        const event = await tx.event.findUnique({ where: { id: String(req.params.id) } });
+
+        if (!event || event.status === EventStatus.DRAFT) throw new NotFoundError('Event');
+        if (event.status !== EventStatus.PUBLISHED || event.endsAt < new Date()) {
+          throw new ConflictError('Event is no longer open for registration');
+        }
+
+        // Members who are already going keep their seat
+        const current = await tx.eventAttendee.findUnique({
+          where: { eventId_userId: { eventId: event.id, userId } },
+        });
+
+        let status: EventRsvpStatus = input.status;
+        if (status === EventRsvpStatus.GOING && current?.status !== EventRsvpStatus.GOING && event.capacity) {
+          const going = await tx.eventAttendee.count({
+            where: { eventId: event.id, status: EventRsvpStatus.GOING },
+          });
+          if (going >= event.capacity) {
+            status = EventRsvpStatus.WAITLISTED;
+          }
+        }
+
+        const registration = await tx.eventAttendee.upsert({
+          where: { eventId_userId: { eventId: event.id, userId } },
+          create: { eventId: event.id, userId, status },
+          update: { status },
+        });
+
+        // Stepping back from GOING to INTERESTED frees a seat
+        if (current?.status === EventRsvpStatus.GOING && status !== EventRsvpStatus.GOING) {
+          await promoteWaitlist(tx, event.id);
+        }
+
+        return registration;
+      });
+
+      await createAuditLog({
+        userId,
+        action: AuditActions.EVENT_JOIN,
+        resource: 'event',
+        resourceId: attendee.eventId,
+        metadata: { status: attendee.status },
+        req,
+      });
+
+      res.json({ success: true, data: attendee });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /events/:id/join
+router.delete(
+  '/:id/join',
+  authenticate,
+  requirePermission({ permission: 'event.join' }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const userId = req.user!.id;
+      const eventId = String(req.params.id);
+
+      await serializableTransaction(async (tx) => {
+        const current = await tx.eventAttendee.findUnique({
+          where: { eventId_userId: { eventId, userId } },
+        });
+
+        if (!current) throw new NotFoundError('Registration');
+
+        await tx.eventAttendee.delete({ where: { id: current.id } });
+
+        // Hand the freed seat to the longest-waiting attendee
+        if (current.status === EventRsvpStatus.GOING) {
+          await promoteWaitlist(tx, current.eventId);
+        }
+      });
+
+      await createAuditLog({
+        userId,
+        action: AuditActions.EVENT_LEAVE,
+        resource: 'event',
+        resourceId: eventId,
+        req,
+      });
+
+      res.json({ success: true, data: { message: 'Registration cancelled' } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export const eventRoutes = router;
@@ -1,11 +1,37 @@
 import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
 import { prisma, env } from '../../config/index.js';
-import { hashPassword, verifyPassword, createAuditLog, AuditActions } from '../../shared/utils/index.js';
-import { ConflictError, UnauthorizedError, NotFoundError } from '../../shared/middleware/index.js';
-import type { RegisterInput, LoginInput, ChangePasswordInput } from './schemas.js';
+import {
+  hashPassword,
+  verifyPassword,
+  createAuditLog,
+  AuditActions,
+  generateToken,
+  hashToken,
+  sendMail,
+} from '../../shared/utils/index.js';
+import {
+  ConflictError,
+  UnauthorizedError,
+  NotFoundError,
+  ValidationError,
+  TooManyRequestsError,
+} from '../../shared/middleware/index.js';
+import type {
+  RegisterInput,
+  LoginInput,
+  ChangePasswordInput,
+  RequestPasswordResetInput,
+  ConfirmPasswordResetInput,
+  VerifyEmailInput,
+} from './schemas.js';
 import type { AuthenticatedRequest } from '../../shared/types/index.js';
 
+const PASSWORD_RESET_TTL_MINUTES = 60;
+const EMAIL_VERIFICATION_TTL_HOURS = 48;
+const EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS = 60;
+const EMAIL_VERIFICATION_MAX_PER_DAY = 5;
+
 interface AuthResult {
   user: {
     id: string;
@@ -58,6 +84,9 @@ export class AuthService {
       });
     }
 
+    // Send verification email
+    await this.issueEmailVerification(user.id, user.email);
+
     // Create session
     const session = await this.createSession(user.id, req);
 
@@ -186,6 +215,186 @@ export class AuthService {
     });
   }
 
+  async requestPasswordReset(
+    input: RequestPasswordResetInput,
+    req?: AuthenticatedRequest
+  ): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { email: input.email.toLowerCase() },
+    });
+
+    // Silently ignore unknown or deactivated accounts to avoid leaking which emails exist
+    if (!user || !user.isActive) {
+      return;
+    }
+
+    const token = generateToken();
+    const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+
+    // Only the most recent reset link stays valid
+    await prisma.$transaction([
+      prisma.passwordResetToken.deleteMany({
+        where: { userId: user.id, usedAt: null },
+      }),
+      prisma.passwordResetToken.create({
+        data: {
+          userId: user.id,
+          tokenHash: hashToken(token),
+          expiresAt,
+        },
+      }),
+    ]);
+
+    const resetUrl = `${env.APP_URL}/password-reset?token=${token}`;
+    await sendMail({
+      to: user.email,
+      subject: 'Reset your password',
+      text: [
+        'We received a request to reset the password for your Sabor a mi Tierra account.',
+        '',
+        `Open the following link within ${PASSWORD_RESET_TTL_MINUTES} minutes to choose a new password:`,
+        resetUrl,
+        '',
+        'If you did not request this, you can ignore this email.',
+      ].join('\n'),
+    });
+
+    await createAuditLog({
+      userId: user.id,
+      action: AuditActions.USER_PASSWORD_RESET_REQUEST,
+      resource: 'user',
+      resourceId: user.id,
+      req,
+    });
+  }
+
+  async confirmPasswordReset(
+    input: ConfirmPasswordResetInput,
+    req?: AuthenticatedRequest
+  ): Promise<void> {
+    const passwordHash = await hashPassword(input.newPassword);
+    const tokenHash = hashToken(input.token);
+
+    const userId = await prisma.$transaction(async (tx) => {
+      const resetToken = await tx.passwordResetToken.findUnique({
+        where: { tokenHash },
+      });
+
+      if (!resetToken || resetToken.usedAt || resetToken.expiresAt < new Date()) {
+        throw new ValidationError('Invalid or expired reset token');
+      }
+
+      // Mark as used first so a concurrent confirm with the same token fails
+      const { count } = await tx.passwordResetToken.updateMany({
+        where: { id: resetToken.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+
+      if (count === 0) {
+        throw new ValidationError('Invalid or expired reset token');
+      }
+
+      // Update password and invalidate all sessions
+      await tx.user.update({
+        where: { id: resetToken.userId },
+        data: { passwordHash },
+      });
+      await tx.session.deleteMany({
+        where: { userId: resetToken.userId },
+      });
+
+      return resetToken.userId;
+    });
+
+    await createAuditLog({
+      userId,
+      action: AuditActions.USER_PASSWORD_RESET,
+      resource: 'user',
+      resourceId: userId,
+      metadata: { method: 'reset_token' },
+      req,
+    });
+  }
+
+  async verifyEmail(input: VerifyEmailInput, req?: AuthenticatedRequest): Promise<void> {
+    const tokenHash = hashToken(input.token);
+
+    const userId = await prisma.$transaction(async (tx) => {
+      const verification = await tx.emailVerificationToken.findUnique({
+        where: { tokenHash },
+      });
+
+      if (!verification || verification.usedAt || verification.expiresAt < new Date()) {
+        throw new ValidationError('Invalid or expired verification token');
+      }
+
+      const { count } = await tx.emailVerificationToken.updateMany({
+        where: { id: verification.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+
+      if (count === 0) {
+        throw new ValidationError('Invalid or expired verification token');
+      }
+
+      await tx.user.update({
+        where: { id: verification.userId },
+        data: { emailVerified: true },
+      });
+
+      return verification.userId;
+    });
+
+    await createAuditLog({
+      userId,
+      action: AuditActions.USER_EMAIL_VERIFY,
+      resource: 'user',
+      resourceId: userId,
+      req,
+    });
+  }
+
+  async resendEmailVerification(userId: string): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    if (user.emailVerified) {
+      throw new ConflictError('Email already verified');
+    }
+
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const recent = await prisma.emailVerificationToken.findMany({
+      where: { userId, createdAt: { gte: since } },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    });
+
+    if (recent.length >= EMAIL_VERIFICATION_MAX_PER_DAY) {
+      const retryAt = recent[recent.length - 1].createdAt.getTime() + 24 * 60 * 60 * 1000;
+      throw new TooManyRequestsError(
+        'Too many verification emails requested',
+        Math.ceil((retryAt - Date.now()) / 1000)
+      );
+    }
+
+    if (recent.length > 0) {
+      const elapsed = (Date.now() - recent[0].createdAt.getTime()) / 1000;
+      if (elapsed < EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS) {
+        throw new TooManyRequestsError(
+          'Please wait before requesting another verification email',
+          Math.ceil(EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS - elapsed)
+        );
+      }
+    }
+
+    await this.issueEmailVerification(user.id, user.email);
+  }
+
   async refreshSession(sessionId: string): Promise<AuthResult | null> {
     const session = await prisma.session.findUnique({
       where: { id: sessionId },
@@ -212,6 +421,39 @@ export class AuthService {
     };
   }
 
+  private async issueEmailVerification(userId: string, email: string): Promise<void> {
+    const token = generateToken();
+    const expiresAt = new Date(Date.now() + EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000);
+
+    // Older links stop working once a new one is issued; used rows are kept for throttling
+    await prisma.emailVerificationToken.updateMany({
+      where: { userId, usedAt: null, expiresAt: { gt: new Date() } },
+      data: { expiresAt: new Date() },
+    });
+
+    await prisma.emailVerificationToken.create({
+      data: {
+        userId,
+        tokenHash: hashToken(token),
+        expiresAt,
+      },
+    });
+
+    const verifyUrl = `${env.APP_URL}/verify-email?token=${token}`;
+    await sendMail({
+      to: email,
+      subject: 'Confirm your email address',
+      text: [
+        'Welcome to Sabor a mi Tierra!',
+        '',
+        'Please confirm your email address by opening the following link:',
+        verifyUrl,
+        '',
+        `The link is valid for ${EMAIL_VERIFICATION_TTL_HOURS} hours.`,
+      ].join('\n'),
+    });
+  }
+
   private async createSession(userId: string, req?: AuthenticatedRequest) {
     const expiresAt = new Date();
     expiresAt.setDate(expiresAt.getDate() + 7); // 7 days
@@ -0,0 +1,223 @@
+import jwt from 'jsonwebtoken';
+import { prisma, env } from '../../config/index.js';
+import {
+  hashPassword,
+  verifyPassword,
+  createAuditLog,
+  AuditActions,
+  generateToken,
+} from '../../shared/utils/index.js';
+import {
+  AppError,
+  NotFoundError,
+  ValidationError,
+  ForbiddenError,
+  hasPermission,
+} from '../../shared/middleware/index.js';
+import type { ClientJwtPayload } from '../../shared/middleware/auth.js';
+import type { ClientCredentialsInput, CreateApiClientInput } from './schemas.js';
+import type { AuthenticatedRequest, AuthenticatedUser } from '../../shared/types/index.js';
+
+const CLIENT_TOKEN_TTL_SECONDS = 60 * 60; // 1 hour
+
+// Permissions that must never be delegated to an API client
+const NON_DELEGABLE_PERMISSIONS = ['system.admin'];
+
+const apiClientSelect = {
+  id: true,
+  organizationId: true,
+  name: true,
+  clientId: true,
+  permissions: true,
+  isActive: true,
+  rateLimit: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+// Error rendered in the RFC 6749 format by the token endpoint
+export class OAuthError extends AppError {
+  constructor(
+    statusCode: number,
+    public oauthCode: 'invalid_request' | 'invalid_client' | 'invalid_scope' | 'unsupported_grant_type',
+    message: string
+  ) {
+    super(statusCode, oauthCode.toUpperCase(), message);
+  }
+}
+
+interface ClientTokenResult {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  scope: string;
+}
+
+export class ClientService {
+  async issueToken(input: ClientCredentialsInput, req?: AuthenticatedRequest): Promise<ClientTokenResult> {
+    const client = await prisma.apiClient.findUnique({
+      where: { clientId: input.client_id },
+      include: { organization: { select: { isActive: true } } },
+    });
+
+    if (!client || !client.isActive || !client.organization.isActive) {
+      throw new OAuthError(401, 'invalid_client', 'Client authentication failed');
+    }
+
+    const isValid = await verifyPassword(input.client_secret, client.clientSecretHash);
+    if (!isValid) {
+      throw new OAuthError(401, 'invalid_client', 'Client authentication failed');
+    }
+
+    const requested = input.scope ? input.scope.split(' ').filter(Boolean) : client.permissions;
+    const unknown = requested.filter((name) => !client.permissions.includes(name));
+    if (unknown.length > 0) {
+      throw new OAuthError(400, 'invalid_scope', `Scope not granted to client: ${unknown.join(' ')}`);
+    }
+
+    const payload: ClientJwtPayload = { sub: client.id, typ: 'client', scope: requested };
+    const accessToken = jwt.sign(payload, env.JWT_SECRET, { expiresIn: CLIENT_TOKEN_TTL_SECONDS });
+
+    await createAuditLog({
+      action: AuditActions.API_CLIENT_TOKEN_ISSUE,
+      resource: 'api_client',
+      resourceId: client.id,
+      metadata: { scope: requested },
+      req,
+    });
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: CLIENT_TOKEN_TTL_SECONDS,
+      scope: requested.join(' '),
+    };
+  }
+
+  async listClients(organizationId: string) {
+    return prisma.apiClient.findMany({
+      where: { organizationId },
+      select: apiClientSelect,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async createClient(
+    organizationId: string,
+    input: CreateApiClientInput,
+    user: AuthenticatedUser,
+    req?: AuthenticatedRequest
+  ) {
+    const organization = await prisma.organization.findUnique({ where: { id: organizationId } });
+    if (!organization) {
+      throw new NotFoundError('Organization');
+    }
+
+    await this.validatePermissions(input.permissions, organizationId, user);
+
+    const clientSecret = generateToken();
+    const client = await prisma.apiClient.create({
+      data: {
+        organizationId,
+        name: input.name,
+        clientId: `cli_${generateToken(12)}`,
+        clientSecretHash: await hashPassword(clientSecret),
+        permissions: input.permissions,
+        rateLimit: input.rateLimit,
+      },
+      select: apiClientSelect,
+    });
+
+    await createAuditLog({
+      userId: user.id,
+      action: AuditActions.API_CLIENT_CREATE,
+      resource: 'api_client',
+      resourceId: client.id,
+      metadata: { organizationId, permissions: input.permissions },
+      req,
+    });
+
+    // The plain secret is returned exactly once
+    return { ...client, clientSecret };
+  }
+
+  async rotateSecret(organizationId: string, id: string, userId: string, req?: AuthenticatedRequest) {
+    await this.findClient(organizationId, id);
+
+    const clientSecret = generateToken();
+    const client = await prisma.apiClient.update({
+      where: { id },
+      data: { clientSecretHash: await hashPassword(clientSecret) },
+      select: apiClientSelect,
+    });
+
+    await createAuditLog({
+      userId,
+      action: AuditActions.API_CLIENT_SECRET_ROTATE,
+      resource: 'api_client',
+      resourceId: id,
+      req,
+    });
+
+    return { ...client, clientSecret };
+  }
+
+  async revokeClient(organizationId: string, id: string, userId: string, req?: AuthenticatedRequest) {
+    await this.findClient(organizationId, id);
+
+    await prisma.apiClient.update({
+      where: { id },
+      data: { isActive: false },
+    });
+
+    await createAuditLog({
+      userId,
+      action: AuditActions.API_CLIENT_REVOKE,
+      resource: 'api_client',
+      resourceId: id,
+      req,
+    });
+  }
+
+  private async findClient(organizationId: string, id: string) {
+    const client = await prisma.apiClient.findFirst({
+      where: { id, organizationId },
+    });
+
+    if (!client) {
+      throw new NotFoundError('API client');
+    }
+
+    return client;
+  }
+
+  private async validatePermissions(
+    names: string[],
+    organizationId: string,
+    user: AuthenticatedUser
+  ): Promise<void> {
+    const forbidden = names.filter((name) => NON_DELEGABLE_PERMISSIONS.includes(name));
+    if (forbidden.length > 0) {
+      throw new ValidationError('Permissions cannot be granted to API clients', forbidden);
+    }
+
+    const existing = await prisma.permission.findMany({
+      where: { name: { in: names } },
+      select: { name: true },
+    });
+    const known = new Set(existing.map((p) => p.name));
+    const unknown = names.filter((name) => !known.has(name));
+
+    if (unknown.length > 0) {
+      throw new ValidationError('Unknown permissions', unknown);
+    }
+
+    // A client token must not do more than the user who created it could
+    const notHeld = names.filter((permission) => !hasPermission(user, { permission }, { organizationId }));
+    if (notHeld.length > 0) {
+      throw new ForbiddenError(`You cannot grant permissions you do not hold: ${notHeld.join(', ')}`);
+    }
+  }
+}
+
+export const clientService = new ClientService();
@@ -1,3 +1,4 @@
 export { authRoutes } from './routes.js';
 export { authService } from './auth.service.js';
+export { clientService } from './client.service.js';
 export * from './schemas.js';
@@ -1,8 +1,23 @@
 import { Router } from 'express';
 import type { Response, NextFunction } from 'express';
+import { ZodError } from 'zod';
 import { authService } from './auth.service.js';
-import { registerSchema, loginSchema, changePasswordSchema } from './schemas.js';
-import { authenticate, verifyCsrf } from '../../shared/middleware/index.js';
+import { clientService, OAuthError } from './client.service.js';
+import {
+  registerSchema,
+  loginSchema,
+  changePasswordSchema,
+  requestPasswordResetSchema,
+  confirmPasswordResetSchema,
+  verifyEmailSchema,
+  clientCredentialsSchema,
+} from './schemas.js';
+import {
+  authenticate,
+  verifyCsrf,
+  rateLimit,
+  RateLimitPolicies,
+} from '../../shared/middleware/index.js';
 import { env } from '../../config/index.js';
 import type { AuthenticatedRequest, ApiResponse } from '../../shared/types/index.js';
 
@@ -20,6 +35,7 @@ const cookieOptions = {
 // POST /auth/register
 router.post(
   '/register',
+  rateLimit(RateLimitPolicies.register),
   async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
     try {
       const input = registerSchema.parse(req.body);
@@ -45,6 +61,7 @@ router.post(
 // POST /auth/login
 router.post(
   '/login',
+  rateLimit(RateLimitPolicies.login, RateLimitPolicies.loginAccount),
   async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
     try {
       const input = loginSchema.parse(req.body);
@@ -113,6 +130,129 @@ router.post(
   }
 );
 
+// POST /auth/password-reset/request
+router.post(
+  '/password-reset/request',
+  rateLimit(RateLimitPolicies.passwordResetRequest),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = requestPasswordResetSchema.parse(req.body);
+      await authService.requestPasswordReset(input, req);
+
+      // Same response whether or not the email is registered
+      res.json({
+        success: true,
+        data: { message: 'If the email is registered, a reset link has been sent.' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /auth/password-reset/confirm
+router.post(
+  '/password-reset/confirm',
+  rateLimit(RateLimitPolicies.passwordResetConfirm),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = confirmPasswordResetSchema.parse(req.body);
+      await authService.confirmPasswordReset(input, req);
+
+      // Clear auth cookie (all sessions were revoked)
+      res.clearCookie('auth_token', { path: '/' });
+
+      res.json({
+        success: true,
+        data: { message: 'Password has been reset. Please log in again.' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /auth/verify-email
+router.post(
+  '/verify-email',
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = verifyEmailSchema.parse(req.body);
+      await authService.verifyEmail(input, req);
+
+      res.json({
+        success: true,
+        data: { message: 'Email address verified' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /auth/verify-email/resend
+router.post(
+  '/verify-email/resend',
+  authenticate,
+  verifyCsrf,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      await authService.resendEmailVerification(req.user!.id);
+
+      res.json({
+        success: true,
+        data: { message: 'Verification email sent' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /auth/token
+// OAuth2 token endpoint; success and error bodies follow RFC 6749 instead of ApiResponse
+router.post(
+  '/token',
+  rateLimit(RateLimitPolicies.clientToken),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    res.setHeader('Cache-Control', 'no-store');
+
+    try {
+      const body = { ...req.body };
+
+      // Client credentials may also be sent via HTTP Basic authentication
+      const [scheme, encoded] = (req.headers.authorization ?? '').split(' ');
+      if (scheme === 'Basic' && encoded) {
+        const decoded = Buffer.from(encoded, 'base64').toString('utf8');
+        const separator = decoded.indexOf(':');
+        if (separator !== -1) {
+          body.client_id = decodeURIComponent(decoded.slice(0, separator));
+          body.client_secret = decodeURIComponent(decoded.slice(separator + 1));
+        }
+      }
+
+      if (body.grant_type !== undefined && body.grant_type !== 'client_credentials') {
+        throw new OAuthError(400, 'unsupported_grant_type', 'Only client_credentials is supported');
+      }
+
+      const input = clientCredentialsSchema.parse(body);
+      const result = await clientService.issueToken(input, req);
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof OAuthError) {
+        res.status(error.statusCode).json({ error: error.oauthCode, error_description: error.message });
+        return;
+      }
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: 'invalid_request', error_description: 'Malformed token request' });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
 // GET /auth/me
 router.get(
   '/me',
@@ -125,6 +265,7 @@ router.get(
           user: {
             id: req.user!.id,
             email: req.user!.email,
+            emailVerified: req.user!.emailVerified,
           },
           roles: req.user!.roles.map((r) => ({
             name: r.role.name,
@@ -0,0 +1,3 @@
+export { inventoryRoutes } from './routes.js';
+export { inventoryService } from './inventory.service.js';
+export * from './schemas.js';
@@ -0,0 +1,422 @@
+import { randomUUID } from 'node:crypto';
+import { Prisma, StockMovementType } from '@prisma/client';
+import { prisma } from '../../config/index.js';
+import { createAuditLog, AuditActions, toCsv, isUnit, convertQuantity } from '../../shared/utils/index.js';
+import {
+  NotFoundError,
+  ConflictError,
+  ForbiddenError,
+  hasPermission,
+} from '../../shared/middleware/index.js';
+import type { UpsertStockItemInput, RecordMovementInput, TransferStockInput } from './schemas.js';
+import type { AuthenticatedRequest, AuthenticatedUser } from '../../shared/types/index.js';
+
+type Decimal = Prisma.Decimal;
+type StockItemRecord = Prisma.StockItemGetPayload<object>;
+
+const stockItemInclude = {
+  ingredient: { select: { id: true, name: true } },
+  product: { select: { id: true, name: true } },
+};
+
+function isLow(item: StockItemRecord): boolean {
+  return item.lowStockThreshold !== null && item.quantity.lte(item.lowStockThreshold);
+}
+
+function withStatus<T extends StockItemRecord>(item: T) {
+  return { ...item, isLow: isLow(item) };
+}
+
+// Books a signed change on a stock item. `guard` narrows the update so concurrent
+// bookings cannot take the level below zero (or past a counted level).
+async function applyDelta(
+  tx: Prisma.TransactionClient,
+  item: StockItemRecord,
+  delta: Decimal,
+  type: StockMovementType,
+  movement: { note?: string; createdBy?: string; transferId?: string; orderId?: string },
+  guard: Prisma.StockItemWhereInput = delta.isNegative() ? { quantity: { gte: delta.neg() } } : {}
+) {
+  const { count } = await tx.stockItem.updateMany({
+    where: { id: item.id, ...guard },
+    data: { quantity: { increment: delta } },
+  });
+
+  if (count === 0) {
+    throw new ConflictError('Not enough stock');
+  }
+
+  const updated = await tx.stockItem.findUniqueOrThrow({ where: { id: item.id } });
+  await tx.stockMovement.create({
+    data: { stockItemId: item.id, type, quantity: delta, quantityAfter: updated.quantity, ...movement },
+  });
+
+  return updated;
+}
+
+export class InventoryService {
+  async listStock(salesInstanceId: string, lowOnly = false) {
+    const items = await prisma.stockItem.findMany({
+      where: { salesInstanceId },
+      include: stockItemInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return items.map(withStatus).filter((item) => !lowOnly || item.isLow);
+  }
+
+  async upsertStockItem(
+    salesInstanceId: string,
+    input: UpsertStockItemInput,
+    userId: string,
+    req?: AuthenticatedRequest
+  ) {
+    const salesInstance = await prisma.salesInstance.findUnique({ where: { id: salesInstanceId } });
+    if (!salesInstance) throw new NotFoundError('Sales instance');
+
+    if (input.ingredientId) {
+      const ingredient = await prisma.ingredient.findUnique({ where: { id: input.ingredientId } });
+      if (!ingredient) throw new NotFoundError('Ingredient');
+    } else {
+      const product = await prisma.product.findUnique({ where: { id: input.productId } });
+      if (!product) throw new NotFoundError('Product');
+    }
+
+    const where: Prisma.StockItemWhereUniqueInput = input.ingredientId
+      ? { salesInstanceId_ingredientId: { salesInstanceId, ingredientId: input.ingredientId } }
+      : { salesInstanceId_productId: { salesInstanceId, productId: input.productId! } };
+
+    const existing = await prisma.stockItem.findUnique({ where });
+    if (existing && existing.unit !== input.unit && !existing.quantity.isZero()) {
+      throw new ConflictError('The unit cannot change while stock is held');
+    }
+
+    const settings = {
+      unit: input.unit,
+      lowStockThreshold: input.lowStockThreshold,
+      targetLevel: input.targetLevel,
+    };
+    const item = await prisma.stockItem.upsert({
+      where,
+      create: { salesInstanceId, ingredientId: input.ingredientId, productId: input.productId, ...settings },
+      update: settings,
+      include: stockItemInclude,
+    });
+
+    await createAuditLog({
+      userId,
+      action: AuditActions.STOCK_ITEM_UPDATE,
+      resource: 'stock_item',
+      resourceId: item.id,
+      metadata: { salesInstanceId, ...settings },
+      req,
+    });
+
+    if (item.productId) await this.syncMenuAvailability([item.productId]);
+
+    return withStatus(item);
+  }
+
+  async listMovements(stockItemId: string, from?: Date, to?: Date) {
+    return prisma.stockMovement.findMany({
+      where: {
+        stockItemId,
+        createdAt: { ...(from && { gte: from }), ...(to && { lt: to }) },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 500,
+    });
+  }
+
+  async recordMovement(
+    stockItemId: string,
+    input: RecordMovementInput,
+    userId: string,
+    req?: AuthenticatedRequest
+  ) {
+    const item = await prisma.$transaction(async (tx) => {
+      const current = await tx.stockItem.findUnique({ where: { id: stockItemId } });
+      if (!current) throw new NotFoundError('Stock item');
+
+      const quantity = new Prisma.Decimal(input.quantity);
+      const movement = { note: input.note, createdBy: userId };
+
+      switch (input.type) {
+        case 'DELIVERY':
+          return applyDelta(tx, current, quantity, StockMovementType.DELIVERY, movement);
+        case 'USAGE':
+          return applyDelta(tx, current, quantity.neg(), StockMovementType.USAGE, movement);
+        case 'WASTE':
+          return applyDelta(tx, current, quantity.neg(), StockMovementType.WASTE, movement);
+        case 'CORRECTION':
+          // A count replaces the level; fail if something was booked since it was read
+          return applyDelta(tx, current, quantity.sub(current.quantity), StockMovementType.CORRECTION, movement, {
+            quantity: current.quantity,
+          });
+      }
+    });
+
+    await createAuditLog({
+      userId,
+      action: AuditActions.STOCK_MOVEMENT,
+      resource: 'stock_item',
+      resourceId: item.id,
+      metadata: { type: input.type, quantity: input.quantity, quantityAfter: item.quantity.toString() },
+      req,
+    });
+
+    if (item.productId) await this.syncMenuAvailability([item.productId]);
+
+    return withStatus(item);
+  }
+
+  // Moves stock to another sales instance, creating its stock item when needed
+  async transfer(
+    stockItemId: string,
+    input: TransferStockInput,
+    user: AuthenticatedUser,
+    req?: AuthenticatedRequest
+  ) {
+    const source = await prisma.stockItem.findUnique({ where: { id: stockItemId } });
+    if (!source) throw new NotFoundError('Stock item');
+
+    const target = await prisma.salesInstance.findUnique({ where: { id: input.toSalesInstanceId } });
+    if (!target) throw new NotFoundError('Sales instance');
+    if (target.id === source.salesInstanceId) {
+      throw new ConflictError('Stock is already at this sales instance');
+    }
+
+    const canReceive = hasPermission(
+      user,
+      { permission: 'inventory.manage' },
+      { organizationId: target.organizationId, salesInstanceId: target.id }
+    );
+    if (!canReceive) throw new ForbiddenError('Insufficient permissions');
+
+    const transferId = randomUUID();
+    const quantity = new Prisma.Decimal(input.quantity);
+    const movement = { note: input.note, createdBy: user.id, transferId };
+
+    const [from, to] = await prisma.$transaction(async (tx) => {
+      const where: Prisma.StockItemWhereUniqueInput = source.ingredientId
+        ? { salesInstanceId_ingredientId: { salesInstanceId: target.id, ingredientId: source.ingredientId } }
+        : { salesInstanceId_productId: { salesInstanceId: target.id, productId: source.productId! } };
+
+      const receiving = await tx.stockItem.upsert({
+        where,
+        create: {
+          salesInstanceId: target.id,
+          ingredientId: source.ingredientId,
+          productId: source.productId,
+          unit: source.unit,
+        },
+        update: {},
+      });
+      if (receiving.unit !== source.unit) {
+        throw new ConflictError(`The receiving stock is kept in ${receiving.unit}, not ${source.unit}`);
+      }
+
+      return Promise.all([
+        applyDelta(tx, source, quantity.neg(), StockMovementType.TRANSFER_OUT, movement),
+        applyDelta(tx, receiving, quantity, StockMovementType.TRANSFER_IN, movement),
+      ]);
+    });
+
+    await createAuditLog({
+      userId: user.id,
+      action: AuditActions.STOCK_TRANSFER,
+      resource: 'stock_item',
+      resourceId: from.id,
+      metadata: { transferId, toStockItemId: to.id, toSalesInstanceId: target.id, quantity: input.quantity },
+      req,
+    });
+
+    if (source.productId) await this.syncMenuAvailability([source.productId]);
+
+    return { transferId, from: withStatus(from), to: withStatus(to) };
+  }
+
+  // Everything at or below its threshold, with the amount needed to get back to the
+  // target level (twice the threshold when no target is set)
+  async shoppingList(salesInstanceId: string) {
+    const items = await this.listStock(salesInstanceId, true);
+
+    return items
+      .map((item) => {
+        const target = item.targetLevel ?? item.lowStockThreshold!.mul(2);
+        const toBuy = Prisma.Decimal.max(target.sub(item.quantity), 0);
+
+        return {
+          stockItemId: item.id,
+          kind: item.ingredientId ? ('ingredient' as const) : ('product' as const),
+          name: item.ingredient?.name ?? item.product?.name ?? '',
+          unit: item.unit,
+          quantity: item.quantity,
+          lowStockThreshold: item.lowStockThreshold,
+          targetLevel: item.targetLevel,
+          toBuy,
+        };
+      })
+      .sort((a, b) => a.kind.localeCompare(b.kind) || a.name.localeCompare(b.name));
+  }
+
+  // The shopping list as a spreadsheet, with decimal commas for a German Excel
+  async shoppingListCsv(salesInstanceId: string) {
+    const rows = await this.shoppingList(salesInstanceId);
+    const number = (value: Prisma.Decimal | null) => value?.toString().replace('.', ',') ?? '';
+
+    return toCsv([
+      ['kind', 'name', 'unit', 'quantity', 'low_stock_threshold', 'target_level', 'to_buy'],
+      ...rows.map((row) => [
+        row.kind,
+        row.name,
+        row.unit,
+        number(row.quantity),
+        number(row.lowStockThreshold),
+        number(row.targetLevel),
+        number(row.toBuy),
+      ]),
+    ]);
+  }
+
+  // Products tracked at the sales instance that have less stock than requested
+  async findShortages(salesInstanceId: string, needs: Map<string, number>) {
+    const items = await prisma.stockItem.findMany({
+      where: { salesInstanceId, productId: { in: [...needs.keys()] } },
+    });
+
+    return items
+      .filter((item) => item.quantity.lt(needs.get(item.productId!)!))
+      .map((item) => item.productId!);
+  }
+
+  // Books the usage of a placed order, inside its transaction. Products stocked as
+  // finished goods come off their own stock; the others off the ingredients of their
+  // recipe. Recipe usage is an estimate, so it may take ingredient stock below zero
+  // instead of refusing the order.
+  async consumeForOrder(
+    tx: Prisma.TransactionClient,
+    salesInstanceId: string,
+    orderId: string,
+    needs: Map<string, number>,
+    userId: string
+  ) {
+    const items = await tx.stockItem.findMany({
+      where: { salesInstanceId, productId: { in: [...needs.keys()] } },
+    });
+
+    for (const item of items) {
+      await applyDelta(tx, item, new Prisma.Decimal(needs.get(item.productId!)!).neg(), StockMovementType.USAGE, {
+        orderId,
+        createdBy: userId,
+      });
+    }
+
+    const stocked = new Set(items.map((item) => item.productId!));
+    const fromRecipe = [...needs.keys()].filter((productId) => !stocked.has(productId));
+    await this.consumeIngredients(tx, salesInstanceId, orderId, fromRecipe, needs, userId);
+
+    return items.map((item) => item.productId!);
+  }
+
+  // Optional ingredients and recipe lines without a quantity are left out, as are
+  // amounts whose unit cannot be converted to the unit the ingredient is stocked in
+  private async consumeIngredients(
+    tx: Prisma.TransactionClient,
+    salesInstanceId: string,
+    orderId: string,
+    productIds: string[],
+    needs: Map<string, number>,
+    userId: string
+  ) {
+    if (productIds.length === 0) return;
+
+    const lines = await tx.productIngredient.findMany({
+      where: { productId: { in: productIds }, isOptional: false, quantity: { not: null }, unit: { not: null } },
+    });
+    const stock = await tx.stockItem.findMany({
+      where: { salesInstanceId, ingredientId: { in: lines.map(({ ingredientId }) => ingredientId) } },
+    });
+    const stockByIngredient = new Map(stock.map((item) => [item.ingredientId!, item]));
+
+    const usage = new Map<string, { item: StockItemRecord; amount: Decimal }>();
+    for (const line of lines) {
+      const item = stockByIngredient.get(line.ingredientId);
+      if (!item || !isUnit(line.unit!) || !isUnit(item.unit)) continue;
+
+      const perPortion = convertQuantity(line.quantity!, line.unit, item.unit);
+      if (!perPortion) continue;
+
+      const amount = perPortion.mul(needs.get(line.productId)!);
+      const booked = usage.get(item.id);
+      usage.set(item.id, { item, amount: booked ? booked.amount.add(amount) : amount });
+    }
+
+    for (const { item, amount } of usage.values()) {
+      await applyDelta(tx, item, amount.neg(), StockMovementType.USAGE, { orderId, createdBy: userId }, {});
+    }
+  }
+
+  // Puts back what a cancelled order took, inside the transaction that cancels it;
+  // safe to call more than once
+  async restockCancelledOrder(tx: Prisma.TransactionClient, orderId: string, userId?: string) {
+    const booked = await tx.stockMovement.groupBy({
+      by: ['stockItemId'],
+      where: { orderId },
+      _sum: { quantity: true },
+    });
+
+    const touched: string[] = [];
+    for (const { stockItemId, _sum } of booked) {
+      if (!_sum.quantity || _sum.quantity.isZero()) continue;
+
+      const item = await tx.stockItem.findUniqueOrThrow({ where: { id: stockItemId } });
+      await applyDelta(tx, item, _sum.quantity.neg(), StockMovementType.RETURN, {
+        orderId,
+        createdBy: userId,
+        note: 'Order cancelled',
+      });
+      if (item.productId) touched.push(item.productId);
+    }
+
+    return touched;
+  }
+
+  // Switches menu items off when the product has run out at every sales instance the
+  // menu is assigned to, and back on once stock returns. Items switched off by hand
+  // (no soldOutAt) are left alone.
+  async syncMenuAvailability(productIds: string[]) {
+    if (productIds.length === 0) return;
+
+    const [menuItems, stock] = await Promise.all([
+      prisma.menuItem.findMany({
+        where: { productId: { in: productIds } },
+        include: { menu: { select: { salesInstances: { select: { salesInstanceId: true } } } } },
+      }),
+      prisma.stockItem.findMany({ where: { productId: { in: productIds } } }),
+    ]);
+
+    const levels = new Map(stock.map((item) => [`${item.productId}:${item.salesInstanceId}`, item.quantity]));
+
+    for (const item of menuItems) {
+      const instances = item.menu.salesInstances.map(({ salesInstanceId }) => salesInstanceId);
+      const soldOut =
+        instances.length > 0 &&
+        instances.every((id) => levels.get(`${item.productId}:${id}`)?.lte(0) ?? false);
+
+      if (soldOut && item.isAvailable) {
+        await prisma.menuItem.update({
+          where: { id: item.id },
+          data: { isAvailable: false, soldOutAt: new Date() },
+        });
+      } else if (!soldOut && !item.isAvailable && item.soldOutAt) {
+        await prisma.menuItem.update({
+          where: { id: item.id },
+          data: { isAvailable: true, soldOutAt: null },
+        });
+      }
+    }
+  }
+}
+
+export const inventoryService = new InventoryService();
@@ -0,0 +1,155 @@
+import { Router } from 'express';
+import type { Response, NextFunction } from 'express';
+import { inventoryService } from './inventory.service.js';
+import {
+  upsertStockItemSchema,
+  recordMovementSchema,
+  transferStockSchema,
+  stockQuerySchema,
+  movementQuerySchema,
+  shoppingListQuerySchema,
+} from './schemas.js';
+import {
+  authenticate,
+  requirePermission,
+  ScopeResolvers,
+  NotFoundError,
+} from '../../shared/middleware/index.js';
+import { prisma } from '../../config/index.js';
+import type { AuthenticatedRequest, ApiResponse, ScopeResolver } from '../../shared/types/index.js';
+
+// Sales instance (and its organization) a stock item in the :stockItemId route parameter belongs to
+const stockItemFromParam: ScopeResolver = async (req) => {
+  const item = await prisma.stockItem.findUnique({
+    where: { id: String(req.params.stockItemId) },
+    select: { salesInstanceId: true, salesInstance: { select: { organizationId: true } } },
+  });
+
+  if (!item) throw new NotFoundError('Stock item');
+
+  return { organizationId: item.salesInstance.organizationId, salesInstanceId: item.salesInstanceId };
+};
+
+const manageSalesInstanceStock = requirePermission({
+  permission: 'inventory.manage',
+  resolve: ScopeResolvers.salesInstanceParam('id'),
+});
+
+const manageStockItem = requirePermission({ permission: 'inventory.manage', resolve: stockItemFromParam });
+
+const router = Router();
+
+// GET /inventory/sales-instances/:id/stock
+router.get(
+  '/sales-instances/:id/stock',
+  authenticate,
+  manageSalesInstanceStock,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const { lowOnly } = stockQuerySchema.parse(req.query);
+      const items = await inventoryService.listStock(String(req.params.id), lowOnly === 'true');
+
+      res.json({ success: true, data: items });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /inventory/sales-instances/:id/stock
+router.put(
+  '/sales-instances/:id/stock',
+  authenticate,
+  manageSalesInstanceStock,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = upsertStockItemSchema.parse(req.body);
+      const item = await inventoryService.upsertStockItem(String(req.params.id), input, req.user!.id, req);
+
+      res.json({ success: true, data: item });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /inventory/sales-instances/:id/shopping-list
+router.get(
+  '/sales-instances/:id/shopping-list',
+  authenticate,
+  manageSalesInstanceStock,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { format } = shoppingListQuerySchema.parse(req.query);
+      const salesInstanceId = String(req.params.id);
+
+      if (format === 'csv') {
+        const file = await inventoryService.shoppingListCsv(salesInstanceId);
+        res.attachment(`shopping-list-${new Date().toISOString().slice(0, 10)}.csv`).send(file);
+        return;
+      }
+
+      const items = await inventoryService.shoppingList(salesInstanceId);
+      res.json({ success: true, data: items });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /inventory/stock/:stockItemId/movements
+router.get(
+  '/stock/:stockItemId/movements',
+  authenticate,
+  manageStockItem,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const { from, to } = movementQuerySchema.parse(req.query);
+      const movements = await inventoryService.listMovements(
+        String(req.params.stockItemId),
+        from ? new Date(from) : undefined,
+        to ? new Date(to) : undefined
+      );
+
+      res.json({ success: true, data: movements });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /inventory/stock/:stockItemId/movements
+router.post(
+  '/stock/:stockItemId/movements',
+  authenticate,
+  manageStockItem,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = recordMovementSchema.parse(req.body);
+      const item = await inventoryService.recordMovement(String(req.params.stockItemId), input, req.user!.id, req);
+
+      res.status(201).json({ success: true, data: item });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /inventory/stock/:stockItemId/transfers
+router.post(
+  '/stock/:stockItemId/transfers',
+  authenticate,
+  manageStockItem,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = transferStockSchema.parse(req.body);
+      const transfer = await inventoryService.transfer(String(req.params.stockItemId), input, req.user!, req);
+
+      res.status(201).json({ success: true, data: transfer });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export const inventoryRoutes = router;
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { UNITS } from '../../shared/utils/index.js';
+
+const amount = z.number().positive().max(1_000_000);
+
+export const upsertStockItemSchema = z
+  .object({
+    ingredientId: z.string().optional(),
+    productId: z.string().optional(),
+    unit: z.enum(UNITS),
+    lowStockThreshold: z.number().min(0).nullable().optional(),
+    targetLevel: z.number().min(0).nullable().optional(),
+  })
+  .refine((input) => Boolean(input.ingredientId) !== Boolean(input.productId), {
+    message: 'Give either an ingredientId or a productId',
+    path: ['ingredientId'],
+  });
+
+// CORRECTION takes the counted level; the other types the amount that came in or went out
+export const recordMovementSchema = z.object({
+  type: z.enum(['DELIVERY', 'USAGE', 'WASTE', 'CORRECTION']),
+  quantity: z.number().min(0).max(1_000_000),
+  note: z.string().max(500).optional(),
+});
+
+export const transferStockSchema = z.object({
+  toSalesInstanceId: z.string(),
+  quantity: amount,
+  note: z.string().max(500).optional(),
+});
+
+export const stockQuerySchema = z.object({
+  lowOnly: z.enum(['true', 'false']).optional(),
+});
+
+export const movementQuerySchema = z.object({
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+});
+
+export const shoppingListQuerySchema = z.object({
+  format: z.enum(['json', 'csv']).default('json'),
+});
+
+export type UpsertStockItemInput = z.infer<typeof upsertStockItemSchema>;
+export type RecordMovementInput = z.infer<typeof recordMovementSchema>;
+export type TransferStockInput = z.infer<typeof transferStockSchema>;
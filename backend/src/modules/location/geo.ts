@@ -0,0 +1,130 @@
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+export const MAX_RADIUS_KM = 100;
+export const DEFAULT_RESULT_LIMIT = 100;
+
+// ?lat=&lng=&radiusKm= for "near me", ?bbox=minLng,minLat,maxLng,maxLat for map viewports
+export const geoQuerySchema = z
+  .object({
+    lat: z.coerce.number().min(-90).max(90).optional(),
+    lng: z.coerce.number().min(-180).max(180).optional(),
+    radiusKm: z.coerce.number().positive().max(MAX_RADIUS_KM).optional(),
+    bbox: z
+      .string()
+      .transform((value) => value.split(',').map(Number))
+      .pipe(
+        z.tuple([
+          z.number().min(-180).max(180),
+          z.number().min(-90).max(90),
+          z.number().min(-180).max(180),
+          z.number().min(-90).max(90),
+        ])
+      )
+      .refine(([, minLat, , maxLat]) => minLat <= maxLat, 'bbox minLat must not exceed maxLat')
+      .optional(),
+    limit: z.coerce.number().int().min(1).max(500).default(DEFAULT_RESULT_LIMIT),
+  })
+  .refine((query) => (query.lat === undefined) === (query.lng === undefined), {
+    message: 'lat and lng must be given together',
+  })
+  .refine((query) => query.radiusKm === undefined || query.lat !== undefined, {
+    message: 'radiusKm requires lat and lng',
+  });
+
+export type GeoQuery = z.infer<typeof geoQuerySchema>;
+
+export interface Coordinates {
+  latitude: number | null;
+  longitude: number | null;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+// Great-circle distance in kilometres (haversine)
+export function distanceKm(latA: number, lngA: number, latB: number, lngB: number): number {
+  const dLat = toRadians(latB - latA);
+  const dLng = toRadians(lngB - lngA);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(latA)) * Math.cos(toRadians(latB)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// Point searches without a box are bounded by the maximum radius
+function effectiveRadiusKm(query: GeoQuery): number | undefined {
+  if (query.lat === undefined) return undefined;
+  return query.radiusKm ?? (query.bbox ? undefined : MAX_RADIUS_KM);
+}
+
+function longitudeRange(minLng: number, maxLng: number): Prisma.LocationWhereInput {
+  // A box crossing the antimeridian wraps around from maxLng back to minLng
+  if (minLng > maxLng) {
+    return { OR: [{ longitude: { gte: minLng } }, { longitude: { lte: maxLng } }] };
+  }
+  return { longitude: { gte: minLng, lte: maxLng } };
+}
+
+// Coarse filter the database can answer; the exact radius is checked in applyGeoQuery
+export function geoWhere(query: GeoQuery): Prisma.LocationWhereInput | undefined {
+  const conditions: Prisma.LocationWhereInput[] = [];
+
+  if (query.bbox) {
+    const [minLng, minLat, maxLng, maxLat] = query.bbox;
+    conditions.push({ latitude: { gte: minLat, lte: maxLat } }, longitudeRange(minLng, maxLng));
+  }
+
+  const radiusKm = effectiveRadiusKm(query);
+  if (query.lat !== undefined && query.lng !== undefined && radiusKm !== undefined) {
+    const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+    const lngScale = Math.cos(toRadians(query.lat));
+    // Near the poles the box spans every longitude
+    const lngDelta = lngScale > 0.01 ? latDelta / lngScale : 360;
+
+    conditions.push({ latitude: { gte: query.lat - latDelta, lte: query.lat + latDelta } });
+    if (lngDelta < 180) {
+      const wrap = (lng: number) => ((lng + 540) % 360) - 180;
+      conditions.push(longitudeRange(wrap(query.lng - lngDelta), wrap(query.lng + lngDelta)));
+    }
+  }
+
+  if (conditions.length === 0) return undefined;
+  return { AND: conditions };
+}
+
+// Rows to fetch before applyGeoQuery; point searches need every candidate to sort by distance
+export function geoTake(query: GeoQuery): number | undefined {
+  return query.lat === undefined ? query.limit : undefined;
+}
+
+// Adds distanceKm from the query point, drops results outside the radius,
+// sorts nearest first and applies the limit
+export function applyGeoQuery<T>(
+  rows: T[],
+  coordinatesOf: (row: T) => Coordinates,
+  query: GeoQuery
+): Array<T & { distanceKm: number | null }> {
+  const { lat, lng } = query;
+  const radiusKm = effectiveRadiusKm(query);
+
+  if (lat === undefined || lng === undefined) {
+    return rows.slice(0, query.limit).map((row) => ({ ...row, distanceKm: null }));
+  }
+
+  return rows
+    .map((row) => {
+      const { latitude, longitude } = coordinatesOf(row);
+      const distance =
+        latitude !== null && longitude !== null ? distanceKm(lat, lng, latitude, longitude) : null;
+      return { ...row, distanceKm: distance === null ? null : Math.round(distance * 1000) / 1000 };
+    })
+    .filter((row) => radiusKm === undefined || (row.distanceKm !== null && row.distanceKm <= radiusKm))
+    .sort((a, b) => (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity))
+    .slice(0, query.limit);
+}
@@ -2,9 +2,34 @@ import { Router } from 'express';
 import type { Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { prisma } from '../../config/index.js';
-import { authenticate, requirePermission, NotFoundError } from '../../shared/middleware/index.js';
-import { createAuditLog, AuditActions } from '../../shared/utils/index.js';
+import {
+  authenticate,
+  optionalAuthenticate,
+  requirePermission,
+  ScopeResolvers,
+  NotFoundError,
+  ValidationError,
+} from '../../shared/middleware/index.js';
+import {
+  createAuditLog,
+  AuditActions,
+  isTimeOfDay,
+  isCalendarDate,
+  isValidTimeZone,
+  addDays,
+  requestLanguages,
+} from '../../shared/utils/index.js';
 import type { AuthenticatedRequest, ApiResponse } from '../../shared/types/index.js';
+import { resolveEffectiveMenu, dietaryRestrictionsFor } from '../product/index.js';
+import { getOpeningStatus, validateOperatingHours } from './opening-hours.js';
+import { geoQuerySchema, geoWhere, geoTake, applyGeoQuery } from './geo.js';
+import {
+  activeStopWhere,
+  resolveCurrentLocation,
+  listStops,
+  createStop,
+  deleteStop,
+} from './schedule.js';
 
 // Schemas
 const createLocationSchema = z.object({
@@ -25,16 +50,56 @@ const createSalesInstanceSchema = z.object({
   locationId: z.string(),
   name: z.string().min(1).max(200),
   type: z.enum(['FOODTRUCK', 'RESTAURANT', 'GHOST_KITCHEN', 'SUPERMARKET', 'POP_UP', 'FESTIVAL_STAND']),
+  timezone: z.string().refine(isValidTimeZone, 'Unknown time zone').optional(),
   settings: z.record(z.unknown()).optional(),
 });
 
+const timeOfDaySchema = z.string().refine(isTimeOfDay, 'Expected a time of day as HH:MM');
+
+// closeTime before openTime describes a shift that ends after midnight
 const operatingHourSchema = z.object({
-  dayOfWeek: z.number().min(0).max(6),
-  openTime: z.string().regex(/^\d{2}:\d{2}$/),
-  closeTime: z.string().regex(/^\d{2}:\d{2}$/),
+  dayOfWeek: z.number().int().min(0).max(6),
+  openTime: timeOfDaySchema,
+  closeTime: timeOfDaySchema,
   isOpen: z.boolean().default(true),
 });
 
+const specialHourSchema = z
+  .object({
+    isClosed: z.boolean().default(false),
+    openTime: timeOfDaySchema.optional(),
+    closeTime: timeOfDaySchema.optional(),
+    note: z.string().max(200).optional(),
+  })
+  .refine((entry) => entry.isClosed || (entry.openTime && entry.closeTime), {
+    message: 'openTime and closeTime are required unless the day is closed',
+  })
+  .refine((entry) => entry.isClosed || entry.openTime !== entry.closeTime, {
+    message: 'closeTime must differ from openTime',
+  });
+
+const specialDateSchema = z.string().refine(isCalendarDate, 'Expected a calendar date as YYYY-MM-DD');
+
+const createStopSchema = z.object({
+  locationId: z.string(),
+  startsAt: z.string().datetime({ offset: true }),
+  endsAt: z.string().datetime({ offset: true }),
+  note: z.string().max(500).optional(),
+});
+
+const scheduleQuerySchema = z.object({
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_SCHEDULE_DAYS = 31;
+
+const effectiveMenuQuerySchema = z.object({
+  at: z.string().datetime({ offset: true }).optional(),
+  hideUnsafe: z.enum(['true', 'false']).optional(),
+});
+
 const router = Router();
 
 // GET /locations
@@ -43,20 +108,22 @@ router.get(
   async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
     try {
       const { city, country, isTemporary } = req.query;
+      const geo = geoQuerySchema.parse(req.query);
 
       const locations = await prisma.location.findMany({
         where: {
           ...(city && { city: String(city) }),
           ...(country && { country: String(country) }),
           ...(isTemporary !== undefined && { isTemporary: isTemporary === 'true' }),
+          ...geoWhere(geo),
         },
         include: {
           _count: { select: { salesInstances: true } },
         },
-        take: 100,
+        take: geoTake(geo),
       });
 
-      res.json({ success: true, data: locations });
+      res.json({ success: true, data: applyGeoQuery(locations, (location) => location, geo) });
     } catch (error) {
       next(error);
     }
@@ -69,7 +136,7 @@ router.get(
   async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
     try {
       const location = await prisma.location.findUnique({
-        where: { id: req.params.id },
+        where: { id: String(req.params.id) },
         include: {
           salesInstances: {
             include: {
@@ -126,23 +193,75 @@ router.get(
   '/sales-instances/list',
   async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
     try {
-      const { type, organizationId, isActive } = req.query;
+      const { type, organizationId, isActive, openNow } = req.query;
+      const geo = geoQuerySchema.parse(req.query);
+      const locationFilter = geoWhere(geo);
+      const now = new Date();
+
+      // Special hours from the local day before on cover an overnight shift that is still
+      // running; two UTC days back is enough for any time zone
+      const since = new Date(`${addDays(now.toISOString().slice(0, 10), -2)}T00:00:00Z`);
 
       const instances = await prisma.salesInstance.findMany({
         where: {
           ...(type && { type: String(type) as any }),
           ...(organizationId && { organizationId: String(organizationId) }),
           ...(isActive !== undefined && { isActive: isActive === 'true' }),
+          // Mobile instances are searched where they currently stand
+          ...(locationFilter && {
+            OR: [
+              { location: locationFilter, stops: { none: activeStopWhere(now) } },
+              { stops: { some: { ...activeStopWhere(now), location: locationFilter } } },
+            ],
+          }),
         },
         include: {
           location: true,
           organization: { select: { id: true, name: true, slug: true } },
           operatingHours: true,
+          specialHours: { where: { date: { gte: since } }, orderBy: { date: 'asc' } },
+          stops: { where: activeStopWhere(now), include: { location: true }, take: 1 },
         },
-        take: 100,
+        // Opening status is computed here, so with openNow the limit applies after filtering
+        take: openNow === undefined ? geoTake(geo) : undefined,
       });
 
-      res.json({ success: true, data: instances });
+      const withOpening = instances
+        .map(({ stops, ...instance }) => ({
+          ...instance,
+          currentLocation: stops[0]?.location ?? instance.location,
+          currentStop: stops[0] ?? null,
+          opening: getOpeningStatus(instance, now),
+        }))
+        .filter((instance) => openNow === undefined || instance.opening.isOpen === (openNow === 'true'));
+
+      res.json({
+        success: true,
+        data: applyGeoQuery(withOpening, (instance) => instance.currentLocation, geo),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /sales-instances/:id/menu
+router.get(
+  '/sales-instances/:id/menu',
+  optionalAuthenticate,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const { at, hideUnsafe } = effectiveMenuQuerySchema.parse(req.query);
+      const languages = await requestLanguages(req);
+
+      const menu = await resolveEffectiveMenu(String(req.params.id), at ? new Date(at) : new Date(), {
+        restrictions: await dietaryRestrictionsFor(req),
+        hideUnsafe: hideUnsafe === 'true',
+        languages,
+      });
+      res.setHeader('Content-Language', languages[0]);
+
+      res.json({ success: true, data: menu });
     } catch (error) {
       next(error);
     }
@@ -153,7 +272,10 @@ router.get(
 router.post(
   '/sales-instances',
   authenticate,
-  requirePermission({ permission: 'sales_instance.create' }),
+  requirePermission({
+    permission: 'sales_instance.create',
+    resolve: ScopeResolvers.organizationBody(),
+  }),
   async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
     try {
       const input = createSalesInstanceSchema.parse(req.body);
@@ -164,6 +286,7 @@ router.post(
           locationId: input.locationId,
           name: input.name,
           type: input.type,
+          timezone: input.timezone,
           settings: input.settings ?? {},
         },
         include: {
@@ -191,26 +314,30 @@ router.post(
 router.put(
   '/sales-instances/:id/hours',
   authenticate,
-  requirePermission({ permission: 'sales_instance.update' }),
+  requirePermission({
+    permission: 'sales_instance.update',
+    resolve: ScopeResolvers.salesInstanceParam('id'),
+  }),
   async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
     try {
       const hours = z.array(operatingHourSchema).parse(req.body);
+      validateOperatingHours(hours);
 
       // Delete existing and create new
       await prisma.$transaction([
         prisma.operatingHour.deleteMany({
-          where: { salesInstanceId: req.params.id },
+          where: { salesInstanceId: String(req.params.id) },
         }),
         prisma.operatingHour.createMany({
           data: hours.map((h) => ({
-            salesInstanceId: req.params.id,
+            salesInstanceId: String(req.params.id),
             ...h,
           })),
         }),
       ]);
 
       const updated = await prisma.operatingHour.findMany({
-        where: { salesInstanceId: req.params.id },
+        where: { salesInstanceId: String(req.params.id) },
       });
 
       res.json({ success: true, data: updated });
@@ -220,4 +347,173 @@ router.put(
   }
 );
 
+// GET /sales-instances/:id/schedule
+router.get(
+  '/sales-instances/:id/schedule',
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const query = scheduleQuerySchema.parse(req.query);
+
+      // Defaults to the coming week, which is what the public map shows
+      const now = new Date();
+      const from = query.from ? new Date(query.from) : now;
+      const to = query.to ? new Date(query.to) : new Date(from.getTime() + 7 * DAY_MS);
+
+      if (to <= from) {
+        throw new ValidationError('to must be after from');
+      }
+      if (to.getTime() - from.getTime() > MAX_SCHEDULE_DAYS * DAY_MS) {
+        throw new ValidationError(`Schedule range cannot exceed ${MAX_SCHEDULE_DAYS} days`);
+      }
+
+      const instance = await prisma.salesInstance.findUnique({
+        where: { id: String(req.params.id) },
+        select: { id: true, name: true, type: true, timezone: true, isActive: true },
+      });
+
+      if (!instance || !instance.isActive) throw new NotFoundError('Sales instance');
+
+      const [current, stops] = await Promise.all([
+        resolveCurrentLocation(instance.id, now),
+        listStops(instance.id, from, to),
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          salesInstance: instance,
+          currentLocation: current.location,
+          currentStop: current.stop,
+          from,
+          to,
+          stops,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /sales-instances/:id/stops
+router.post(
+  '/sales-instances/:id/stops',
+  authenticate,
+  requirePermission({
+    permission: 'sales_instance.update',
+    resolve: ScopeResolvers.salesInstanceParam('id'),
+  }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = createStopSchema.parse(req.body);
+
+      const stop = await createStop(
+        String(req.params.id),
+        { ...input, startsAt: new Date(input.startsAt), endsAt: new Date(input.endsAt) },
+        req.user!.id,
+        req
+      );
+
+      res.status(201).json({ success: true, data: stop });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /sales-instances/:id/stops/:stopId
+router.delete(
+  '/sales-instances/:id/stops/:stopId',
+  authenticate,
+  requirePermission({
+    permission: 'sales_instance.update',
+    resolve: ScopeResolvers.salesInstanceParam('id'),
+  }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      await deleteStop(String(req.params.id), String(req.params.stopId), req.user!.id, req);
+
+      res.json({ success: true, data: { message: 'Stop removed' } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /sales-instances/:id/special-hours/:date
+router.put(
+  '/sales-instances/:id/special-hours/:date',
+  authenticate,
+  requirePermission({
+    permission: 'sales_instance.update',
+    resolve: ScopeResolvers.salesInstanceParam('id'),
+  }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const salesInstanceId = String(req.params.id);
+      const date = new Date(specialDateSchema.parse(req.params.date));
+      const input = specialHourSchema.parse(req.body);
+
+      // A closed day keeps no times around
+      const data = input.isClosed
+        ? { isClosed: true, openTime: null, closeTime: null, note: input.note }
+        : input;
+
+      const entry = await prisma.specialOpeningHour.upsert({
+        where: { salesInstanceId_date: { salesInstanceId, date } },
+        create: { salesInstanceId, date, ...data },
+        update: data,
+      });
+
+      await createAuditLog({
+        userId: req.user!.id,
+        action: AuditActions.SALES_INSTANCE_SPECIAL_HOURS_UPDATE,
+        resource: 'sales_instance',
+        resourceId: salesInstanceId,
+        metadata: { date: entry.date.toISOString().slice(0, 10), isClosed: entry.isClosed },
+        req,
+      });
+
+      res.json({ success: true, data: entry });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /sales-instances/:id/special-hours/:date
+router.delete(
+  '/sales-instances/:id/special-hours/:date',
+  authenticate,
+  requirePermission({
+    permission: 'sales_instance.update',
+    resolve: ScopeResolvers.salesInstanceParam('id'),
+  }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const salesInstanceId = String(req.params.id);
+      const date = new Date(specialDateSchema.parse(req.params.date));
+
+      const { count } = await prisma.specialOpeningHour.deleteMany({
+        where: { salesInstanceId, date },
+      });
+
+      if (count > 0) {
+        await createAuditLog({
+          userId: req.user!.id,
+          action: AuditActions.SALES_INSTANCE_SPECIAL_HOURS_DELETE,
+          resource: 'sales_instance',
+          resourceId: salesInstanceId,
+          metadata: { date: date.toISOString().slice(0, 10) },
+          req,
+        });
+      }
+
+      res.json({ success: true, data: { message: 'Special hours removed' } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export const locationRoutes = router;
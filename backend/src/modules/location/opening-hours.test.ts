@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { ValidationError } from '../../shared/middleware/index.js';
+import { getOpeningStatus, validateOperatingHours } from './opening-hours.js';
+import type { OpeningSchedule } from './opening-hours.js';
+
+function hours(dayOfWeek: number, openTime: string, closeTime: string, isOpen = true) {
+  return { dayOfWeek, openTime, closeTime, isOpen };
+}
+
+// Lunch on weekdays, plus a late shift from Saturday into Sunday
+const schedule: OpeningSchedule = {
+  timezone: 'Europe/Berlin',
+  operatingHours: [1, 2, 3, 4, 5].map((day) => hours(day, '11:00', '14:00')).concat(hours(6, '18:00', '02:00')),
+  specialHours: [],
+};
+
+describe('getOpeningStatus', () => {
+  it('is open during a shift and reports when it closes', () => {
+    // Monday 2026-10-19, 12:00 in Berlin
+    expect(getOpeningStatus(schedule, new Date('2026-10-19T10:00:00Z'))).toEqual({
+      isOpen: true,
+      nextOpening: new Date('2026-10-20T09:00:00Z'),
+      nextClosing: new Date('2026-10-19T12:00:00Z'),
+    });
+  });
+
+  it('reports the next opening while closed', () => {
+    const status = getOpeningStatus(schedule, new Date('2026-10-19T14:00:00Z'));
+    expect(status.isOpen).toBe(false);
+    expect(status.nextOpening).toEqual(new Date('2026-10-20T09:00:00Z'));
+    expect(status.nextClosing).toEqual(new Date('2026-10-20T12:00:00Z'));
+  });
+
+  it('keeps an overnight shift open past midnight', () => {
+    // Sunday 2026-10-18, 01:00 in Berlin
+    const status = getOpeningStatus(schedule, new Date('2026-10-17T23:00:00Z'));
+    expect(status.isOpen).toBe(true);
+    expect(status.nextClosing).toEqual(new Date('2026-10-18T00:00:00Z'));
+  });
+
+  it('lets special hours replace the weekly schedule for their date', () => {
+    const holiday = {
+      ...schedule,
+      specialHours: [{ date: new Date('2026-10-19'), isClosed: true, openTime: null, closeTime: null }],
+    };
+    expect(getOpeningStatus(holiday, new Date('2026-10-19T10:00:00Z')).isOpen).toBe(false);
+
+    const longer = {
+      ...schedule,
+      specialHours: [{ date: new Date('2026-10-19'), isClosed: false, openTime: '10:00', closeTime: '20:00' }],
+    };
+    expect(getOpeningStatus(longer, new Date('2026-10-19T16:00:00Z')).isOpen).toBe(true);
+  });
+
+  it('merges back-to-back shifts into one', () => {
+    const split = { ...schedule, operatingHours: [hours(1, '11:00', '14:00'), hours(1, '14:00', '18:00')] };
+    const status = getOpeningStatus(split, new Date('2026-10-19T10:00:00Z'));
+    expect(status.nextClosing).toEqual(new Date('2026-10-19T16:00:00Z'));
+  });
+
+  it('skips stored rows whose times cannot be read', () => {
+    const legacy = { ...schedule, operatingHours: [hours(1, '11h', '14:00'), hours(1, '15:00', '18:00')] };
+    const status = getOpeningStatus(legacy, new Date('2026-10-19T10:00:00Z'));
+    expect(status.isOpen).toBe(false);
+    expect(status.nextOpening).toEqual(new Date('2026-10-19T13:00:00Z'));
+  });
+});
+
+describe('validateOperatingHours', () => {
+  it('accepts a consistent week', () => {
+    expect(() => validateOperatingHours(schedule.operatingHours)).not.toThrow();
+  });
+
+  it('rejects duplicate days, empty shifts and overlaps', () => {
+    expect(() => validateOperatingHours([hours(1, '11:00', '14:00'), hours(1, '11:00', '14:00')])).toThrow(
+      ValidationError
+    );
+    expect(() => validateOperatingHours([hours(2, '11:00', '11:00')])).toThrow(ValidationError);
+    expect(() => validateOperatingHours([hours(1, '18:00', '12:00'), hours(2, '11:00', '14:00')])).toThrow(
+      ValidationError
+    );
+  });
+
+  it('checks the last shift of the week against the first one', () => {
+    expect(() => validateOperatingHours([hours(6, '20:00', '03:00'), hours(0, '02:00', '06:00')])).toThrow(
+      ValidationError
+    );
+  });
+});
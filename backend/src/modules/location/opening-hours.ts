@@ -0,0 +1,150 @@
+import type { OperatingHour, SpecialOpeningHour } from '@prisma/client';
+import { ValidationError } from '../../shared/middleware/index.js';
+import {
+  toZonedTime,
+  fromZonedTime,
+  addDays,
+  weekdayOf,
+  isTimeOfDay,
+  parseTimeOfDay,
+} from '../../shared/utils/index.js';
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+// How far ahead to look for the next opening or closing
+const LOOKAHEAD_DAYS = 14;
+
+export interface OpeningSchedule {
+  timezone: string;
+  operatingHours: Pick<OperatingHour, 'dayOfWeek' | 'openTime' | 'closeTime' | 'isOpen'>[];
+  specialHours: Pick<SpecialOpeningHour, 'date' | 'isClosed' | 'openTime' | 'closeTime'>[];
+}
+
+export interface OpeningStatus {
+  isOpen: boolean;
+  nextOpening: Date | null;
+  nextClosing: Date | null;
+}
+
+interface Interval {
+  start: Date;
+  end: Date;
+}
+
+// Rows saved before times were validated may hold times that cannot be read; they are
+// skipped so one bad row does not break every listing that reports opening status
+function hasReadableTimes(openTime: string, closeTime: string): boolean {
+  return isTimeOfDay(openTime) && isTimeOfDay(closeTime);
+}
+
+// Minutes a shift lasts; a closing time at or before the opening time ends on the next day
+function shiftLength(openTime: string, closeTime: string): number {
+  const open = parseTimeOfDay(openTime);
+  const close = parseTimeOfDay(closeTime);
+  return close > open ? close - open : MINUTES_PER_DAY - open + close;
+}
+
+function shiftOn(date: string, openTime: string, closeTime: string, timezone: string): Interval {
+  const open = parseTimeOfDay(openTime);
+  return {
+    start: fromZonedTime(date, open, timezone),
+    end: fromZonedTime(date, open + shiftLength(openTime, closeTime), timezone),
+  };
+}
+
+// Shifts starting on a local date; special hours replace the weekly schedule for that date
+function shiftsStartingOn(schedule: OpeningSchedule, date: string): Interval[] {
+  const special = schedule.specialHours.find(
+    (entry) =>
+      entry.date.toISOString().slice(0, 10) === date &&
+      (entry.isClosed || !entry.openTime || !entry.closeTime || hasReadableTimes(entry.openTime, entry.closeTime))
+  );
+
+  if (special) {
+    if (special.isClosed || !special.openTime || !special.closeTime) return [];
+    return [shiftOn(date, special.openTime, special.closeTime, schedule.timezone)];
+  }
+
+  const weekday = weekdayOf(date);
+  return schedule.operatingHours
+    .filter((hour) => hour.isOpen && hour.dayOfWeek === weekday && hasReadableTimes(hour.openTime, hour.closeTime))
+    .map((hour) => shiftOn(date, hour.openTime, hour.closeTime, schedule.timezone));
+}
+
+// Opening state at an instant plus the next transitions within the lookahead window
+export function getOpeningStatus(schedule: OpeningSchedule, at: Date): OpeningStatus {
+  const today = toZonedTime(at, schedule.timezone).date;
+
+  // Start a day early so an overnight shift from yesterday is still seen
+  const intervals: Interval[] = [];
+  for (let offset = -1; offset <= LOOKAHEAD_DAYS; offset++) {
+    intervals.push(...shiftsStartingOn(schedule, addDays(today, offset)));
+  }
+  intervals.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  // Merge back-to-back shifts so a closing followed by an immediate reopening is not reported
+  const merged: Interval[] = [];
+  for (const interval of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) last.end = interval.end;
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+
+  const current = merged.find((interval) => interval.start <= at && at < interval.end);
+  const upcoming = merged.find((interval) => interval.start > at);
+
+  return {
+    isOpen: Boolean(current),
+    nextOpening: upcoming?.start ?? null,
+    nextClosing: current?.end ?? upcoming?.end ?? null,
+  };
+}
+
+// Rejects weekly hours with duplicate days, empty shifts or shifts running into the next one
+export function validateOperatingHours(
+  hours: Array<Pick<OperatingHour, 'dayOfWeek' | 'openTime' | 'closeTime' | 'isOpen'>>
+): void {
+  const errors: Array<{ dayOfWeek: number; reason: string }> = [];
+  const seen = new Set<number>();
+
+  for (const hour of hours) {
+    if (seen.has(hour.dayOfWeek)) {
+      errors.push({ dayOfWeek: hour.dayOfWeek, reason: 'Day is listed more than once' });
+    }
+    seen.add(hour.dayOfWeek);
+
+    if (hour.openTime === hour.closeTime) {
+      errors.push({ dayOfWeek: hour.dayOfWeek, reason: 'closeTime must differ from openTime' });
+    }
+  }
+
+  // Place open shifts on a minute-of-week axis and check each against its successor
+  const shifts = hours
+    .filter((hour) => hour.isOpen && hour.openTime !== hour.closeTime)
+    .map((hour) => {
+      const start = hour.dayOfWeek * MINUTES_PER_DAY + parseTimeOfDay(hour.openTime);
+      return { dayOfWeek: hour.dayOfWeek, start, end: start + shiftLength(hour.openTime, hour.closeTime) };
+    })
+    .sort((a, b) => a.start - b.start);
+
+  shifts.forEach((shift, index) => {
+    const following = shifts[(index + 1) % shifts.length];
+    if (following === shift) return;
+
+    const followingStart = following.start + (index === shifts.length - 1 ? MINUTES_PER_WEEK : 0);
+    if (shift.end > followingStart) {
+      errors.push({
+        dayOfWeek: shift.dayOfWeek,
+        reason: `Shift runs past the opening on day ${following.dayOfWeek}`,
+      });
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new ValidationError('Inconsistent operating hours', errors);
+  }
+}
@@ -0,0 +1,131 @@
+import { Prisma, SalesInstanceType } from '@prisma/client';
+import { prisma } from '../../config/index.js';
+import { NotFoundError, ValidationError, ConflictError } from '../../shared/middleware/index.js';
+import { createAuditLog, AuditActions, serializableTransaction } from '../../shared/utils/index.js';
+import type { AuthenticatedRequest } from '../../shared/types/index.js';
+
+export interface CreateStopInput {
+  locationId: string;
+  startsAt: Date;
+  endsAt: Date;
+  note?: string;
+}
+
+const stopInclude = { location: true };
+
+// Sales instance types that move between locations; the others stay at their home location
+const MOBILE_SALES_INSTANCE_TYPES: SalesInstanceType[] = [
+  SalesInstanceType.FOODTRUCK,
+  SalesInstanceType.POP_UP,
+  SalesInstanceType.FESTIVAL_STAND,
+];
+
+// Stops of a sales instance active at the given instant
+export function activeStopWhere(at: Date): Prisma.SalesInstanceStopWhereInput {
+  return { startsAt: { lte: at }, endsAt: { gt: at } };
+}
+
+// Where a sales instance stands at an instant: its scheduled stop, else its home location
+export async function resolveCurrentLocation(salesInstanceId: string, at: Date) {
+  const instance = await prisma.salesInstance.findUnique({
+    where: { id: salesInstanceId },
+    include: {
+      location: true,
+      stops: { where: activeStopWhere(at), include: stopInclude, take: 1 },
+    },
+  });
+
+  if (!instance) throw new NotFoundError('Sales instance');
+
+  const [stop] = instance.stops;
+  return { location: stop?.location ?? instance.location, stop: stop ?? null };
+}
+
+export async function listStops(salesInstanceId: string, from: Date, to: Date) {
+  return prisma.salesInstanceStop.findMany({
+    where: { salesInstanceId, startsAt: { lt: to }, endsAt: { gt: from } },
+    include: stopInclude,
+    orderBy: { startsAt: 'asc' },
+  });
+}
+
+export async function createStop(
+  salesInstanceId: string,
+  input: CreateStopInput,
+  userId: string,
+  req?: AuthenticatedRequest
+) {
+  if (input.endsAt <= input.startsAt) {
+    throw new ValidationError('endsAt must be after startsAt');
+  }
+
+  const instance = await prisma.salesInstance.findUnique({ where: { id: salesInstanceId } });
+  if (!instance) throw new NotFoundError('Sales instance');
+  if (!MOBILE_SALES_INSTANCE_TYPES.includes(instance.type)) {
+    throw new ValidationError('Only mobile sales instances can be scheduled at stops');
+  }
+
+  const location = await prisma.location.findUnique({ where: { id: input.locationId } });
+  if (!location) throw new NotFoundError('Location');
+
+  // Temporary locations (festival grounds, markets) can only be used while they exist
+  if (
+    (location.validFrom && input.startsAt < location.validFrom) ||
+    (location.validUntil && input.endsAt > location.validUntil)
+  ) {
+    throw new ValidationError('Stop lies outside the validity period of the location');
+  }
+
+  // Serializable so two concurrent requests cannot both pass the overlap check
+  const stop = await serializableTransaction(async (tx) => {
+    const overlapping = await tx.salesInstanceStop.findFirst({
+      where: { salesInstanceId, startsAt: { lt: input.endsAt }, endsAt: { gt: input.startsAt } },
+      orderBy: { startsAt: 'asc' },
+    });
+
+    if (overlapping) {
+      throw new ConflictError(
+        `Stop overlaps with an existing stop from ${overlapping.startsAt.toISOString()} ` +
+          `to ${overlapping.endsAt.toISOString()}`
+      );
+    }
+
+    return tx.salesInstanceStop.create({
+      data: { salesInstanceId, ...input, createdBy: userId },
+      include: stopInclude,
+    });
+  });
+
+  await createAuditLog({
+    userId,
+    action: AuditActions.SALES_INSTANCE_STOP_CREATE,
+    resource: 'sales_instance',
+    resourceId: salesInstanceId,
+    metadata: { stopId: stop.id, locationId: stop.locationId },
+    req,
+  });
+
+  return stop;
+}
+
+export async function deleteStop(
+  salesInstanceId: string,
+  stopId: string,
+  userId: string,
+  req?: AuthenticatedRequest
+) {
+  const { count } = await prisma.salesInstanceStop.deleteMany({
+    where: { id: stopId, salesInstanceId },
+  });
+
+  if (count === 0) throw new NotFoundError('Stop');
+
+  await createAuditLog({
+    userId,
+    action: AuditActions.SALES_INSTANCE_STOP_DELETE,
+    resource: 'sales_instance',
+    resourceId: salesInstanceId,
+    metadata: { stopId },
+    req,
+  });
+}
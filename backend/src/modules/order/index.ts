@@ -0,0 +1,3 @@
+export { orderRoutes } from './routes.js';
+export { orderService } from './order.service.js';
+export * from './schemas.js';
@@ -0,0 +1,278 @@
+import { Prisma, OrderStatus } from '@prisma/client';
+import { prisma } from '../../config/index.js';
+import { createAuditLog, AuditActions } from '../../shared/utils/index.js';
+import { applyMenuItemPrices, evaluateMenu } from '../product/index.js';
+import { inventoryService } from '../inventory/index.js';
+import {
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  ForbiddenError,
+  hasPermission,
+} from '../../shared/middleware/index.js';
+import type { PlaceOrderInput, UpdateOrderStatusInput, CancelOrderInput } from './schemas.js';
+import type { AuthenticatedRequest, AuthenticatedUser } from '../../shared/types/index.js';
+
+// Allowed status transitions for operators
+const STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PLACED: [OrderStatus.ACCEPTED, OrderStatus.CANCELLED],
+  ACCEPTED: [OrderStatus.PREPARING, OrderStatus.CANCELLED],
+  PREPARING: [OrderStatus.READY, OrderStatus.CANCELLED],
+  READY: [OrderStatus.COLLECTED],
+  COLLECTED: [],
+  CANCELLED: [],
+};
+
+const orderInclude = {
+  lines: true,
+  salesInstance: { select: { id: true, name: true, type: true, organizationId: true } },
+};
+
+export class OrderService {
+  async placeOrder(userId: string, input: PlaceOrderInput, req?: AuthenticatedRequest) {
+    const salesInstance = await prisma.salesInstance.findUnique({
+      where: { id: input.salesInstanceId },
+    });
+
+    if (!salesInstance || !salesInstance.isActive) {
+      throw new NotFoundError('Sales instance');
+    }
+
+    const now = new Date();
+    const menuItemIds = [...new Set(input.lines.map((line) => line.menuItemId))];
+
+    // Only items on an active menu currently assigned to this sales instance can be ordered
+    const menuItems = await prisma.menuItem.findMany({
+      where: {
+        id: { in: menuItemIds },
+        menu: {
+          isActive: true,
+          salesInstances: { some: { salesInstanceId: salesInstance.id } },
+          AND: [
+            { OR: [{ validFrom: null }, { validFrom: { lte: now } }] },
+            { OR: [{ validUntil: null }, { validUntil: { gte: now } }] },
+          ],
+        },
+      },
+      include: { product: true, menu: { include: { items: true } } },
+    });
+
+    // The menu rules decide what is on sale right now, as on the public menu
+    const context = { at: now, salesInstanceType: salesInstance.type, timezone: salesInstance.timezone };
+    const menus = new Map(menuItems.map(({ menu }) => [menu.id, menu]));
+    const onSale = new Set(
+      [...menus.values()].flatMap((menu) => evaluateMenu(menu, context).map(({ id }) => id))
+    );
+
+    const pricedItems = await applyMenuItemPrices(menuItems, now);
+    const menuItemsById = new Map(pricedItems.map((item) => [item.id, item]));
+    const errors: Array<{ menuItemId: string; reason: string }> = [];
+
+    for (const menuItemId of menuItemIds) {
+      const item = menuItemsById.get(menuItemId);
+      if (!item) {
+        errors.push({ menuItemId, reason: 'Not on a menu of this sales instance' });
+      } else if (!onSale.has(item.id) || !item.product.isActive) {
+        errors.push({ menuItemId, reason: 'Currently unavailable' });
+      }
+    }
+
+    // Quantity per product, for products whose stock is tracked at this sales instance
+    const needs = new Map<string, number>();
+    for (const line of input.lines) {
+      const item = menuItemsById.get(line.menuItemId);
+      if (item) needs.set(item.productId, (needs.get(item.productId) ?? 0) + line.quantity);
+    }
+
+    const shortages = new Set(await inventoryService.findShortages(salesInstance.id, needs));
+    for (const item of pricedItems) {
+      if (shortages.has(item.productId) && !errors.some((error) => error.menuItemId === item.id)) {
+        errors.push({ menuItemId: item.id, reason: 'Not enough stock' });
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Some items cannot be ordered', errors);
+    }
+
+    // Snapshot name and the price in effect at placement on each line
+    const lines = input.lines.map((line) => {
+      const item = menuItemsById.get(line.menuItemId)!;
+      const unitPrice = item.price;
+
+      return {
+        productId: item.productId,
+        menuItemId: item.id,
+        productName: item.product.name,
+        unitPrice,
+        quantity: line.quantity,
+        lineTotal: unitPrice.mul(line.quantity),
+        notes: line.notes,
+      };
+    });
+
+    const totalAmount = lines.reduce(
+      (sum, line) => sum.add(line.lineTotal),
+      new Prisma.Decimal(0)
+    );
+
+    // Stock is booked with the order so a concurrent order cannot take the same items
+    const { order, consumed } = await prisma.$transaction(async (tx) => {
+      const order = await tx.order.create({
+        data: {
+          salesInstanceId: salesInstance.id,
+          userId,
+          totalAmount,
+          notes: input.notes,
+          lines: { create: lines },
+        },
+        include: orderInclude,
+      });
+      const consumed = await inventoryService.consumeForOrder(tx, salesInstance.id, order.id, needs, userId);
+
+      return { order, consumed };
+    });
+
+    await inventoryService.syncMenuAvailability(consumed);
+
+    await createAuditLog({
+      userId,
+      action: AuditActions.ORDER_PLACE,
+      resource: 'order',
+      resourceId: order.id,
+      metadata: { salesInstanceId: salesInstance.id, totalAmount: totalAmount.toString() },
+      req,
+    });
+
+    return order;
+  }
+
+  async getOrder(orderId: string, user: AuthenticatedUser) {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: orderInclude,
+    });
+
+    if (!order) {
+      throw new NotFoundError('Order');
+    }
+
+    const canManage = hasPermission(
+      user,
+      { permission: 'order.manage' },
+      { organizationId: order.salesInstance.organizationId, salesInstanceId: order.salesInstanceId }
+    );
+
+    if (order.userId !== user.id && !canManage) {
+      throw new ForbiddenError('Insufficient permissions');
+    }
+
+    return order;
+  }
+
+  async listForUser(userId: string) {
+    return prisma.order.findMany({
+      where: { userId },
+      include: orderInclude,
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+  }
+
+  async listForSalesInstance(salesInstanceId: string, status?: OrderStatus[]) {
+    return prisma.order.findMany({
+      where: {
+        salesInstanceId,
+        ...(status && { status: { in: status } }),
+      },
+      include: orderInclude,
+      orderBy: { createdAt: 'asc' },
+      take: 100,
+    });
+  }
+
+  async updateStatus(
+    orderId: string,
+    input: UpdateOrderStatusInput,
+    userId: string | undefined,
+    req?: AuthenticatedRequest
+  ) {
+    const order = await prisma.order.findUnique({ where: { id: orderId } });
+
+    if (!order) {
+      throw new NotFoundError('Order');
+    }
+
+    if (!STATUS_TRANSITIONS[order.status].includes(input.status)) {
+      throw new ConflictError(`Cannot move order from ${order.status} to ${input.status}`);
+    }
+
+    return this.transition(order.id, order.status, input.status, input.reason, userId, req);
+  }
+
+  async cancelByCustomer(
+    orderId: string,
+    input: CancelOrderInput,
+    userId: string,
+    req?: AuthenticatedRequest
+  ) {
+    const order = await prisma.order.findUnique({ where: { id: orderId } });
+
+    if (!order || order.userId !== userId) {
+      throw new NotFoundError('Order');
+    }
+
+    // Customers may only withdraw orders the stand has not accepted yet
+    if (order.status !== OrderStatus.PLACED) {
+      throw new ConflictError('Order can no longer be cancelled');
+    }
+
+    return this.transition(order.id, order.status, OrderStatus.CANCELLED, input.reason, userId, req);
+  }
+
+  private async transition(
+    orderId: string,
+    from: OrderStatus,
+    to: OrderStatus,
+    reason: string | undefined,
+    userId: string | undefined,
+    req?: AuthenticatedRequest
+  ) {
+    // The stock goes back in the same transaction, so a cancelled order is never left
+    // holding stock
+    const restocked = await prisma.$transaction(async (tx) => {
+      // Guard against a concurrent transition by matching on the previous status
+      const { count } = await tx.order.updateMany({
+        where: { id: orderId, status: from },
+        data: {
+          status: to,
+          ...(to === OrderStatus.CANCELLED && { cancelReason: reason ?? null }),
+        },
+      });
+
+      if (count === 0) {
+        throw new ConflictError('Order status changed concurrently, please retry');
+      }
+
+      return to === OrderStatus.CANCELLED ? inventoryService.restockCancelledOrder(tx, orderId, userId) : [];
+    });
+
+    await inventoryService.syncMenuAvailability(restocked);
+
+    await createAuditLog({
+      userId,
+      action: to === OrderStatus.CANCELLED ? AuditActions.ORDER_CANCEL : AuditActions.ORDER_STATUS_UPDATE,
+      resource: 'order',
+      resourceId: orderId,
+      metadata: { from, to, ...(reason && { reason }) },
+      req,
+    });
+
+    return prisma.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: orderInclude,
+    });
+  }
+}
+
+export const orderService = new OrderService();
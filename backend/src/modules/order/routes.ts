@@ -0,0 +1,136 @@
+import { Router } from 'express';
+import type { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { orderService } from './order.service.js';
+import { placeOrderSchema, updateOrderStatusSchema, cancelOrderSchema } from './schemas.js';
+import {
+  authenticate,
+  authenticateUserOrClient,
+  requirePermission,
+  ScopeResolvers,
+  NotFoundError,
+} from '../../shared/middleware/index.js';
+import { prisma } from '../../config/index.js';
+import type { AuthenticatedRequest, ApiResponse, ScopeResolver } from '../../shared/types/index.js';
+
+const statusFilterSchema = z
+  .string()
+  .transform((value) => value.split(','))
+  .pipe(z.array(z.enum(['PLACED', 'ACCEPTED', 'PREPARING', 'READY', 'COLLECTED', 'CANCELLED'])))
+  .optional();
+
+// Sales instance (and its organization) an order in the :id route parameter belongs to
+const orderFromParam: ScopeResolver = async (req) => {
+  const order = await prisma.order.findUnique({
+    where: { id: String(req.params.id) },
+    select: { salesInstanceId: true, salesInstance: { select: { organizationId: true } } },
+  });
+
+  if (!order) throw new NotFoundError('Order');
+
+  return { organizationId: order.salesInstance.organizationId, salesInstanceId: order.salesInstanceId };
+};
+
+const router = Router();
+
+// POST /orders
+router.post(
+  '/',
+  authenticate,
+  requirePermission({ permission: 'order.place' }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = placeOrderSchema.parse(req.body);
+      const order = await orderService.placeOrder(req.user!.id, input, req);
+
+      res.status(201).json({ success: true, data: order });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /orders/mine
+router.get(
+  '/mine',
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const orders = await orderService.listForUser(req.user!.id);
+
+      res.json({ success: true, data: orders });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /orders/sales-instance/:salesInstanceId
+router.get(
+  '/sales-instance/:salesInstanceId',
+  authenticateUserOrClient,
+  requirePermission({
+    permission: 'order.manage',
+    resolve: ScopeResolvers.salesInstanceParam('salesInstanceId'),
+  }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const status = statusFilterSchema.parse(req.query.status);
+      const orders = await orderService.listForSalesInstance(String(req.params.salesInstanceId), status);
+
+      res.json({ success: true, data: orders });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /orders/:id
+router.get(
+  '/:id',
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const order = await orderService.getOrder(String(req.params.id), req.user!);
+
+      res.json({ success: true, data: order });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /orders/:id/status
+router.post(
+  '/:id/status',
+  authenticateUserOrClient,
+  requirePermission({ permission: 'order.manage', resolve: orderFromParam }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = updateOrderStatusSchema.parse(req.body);
+      const order = await orderService.updateStatus(String(req.params.id), input, req.user?.id, req);
+
+      res.json({ success: true, data: order });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /orders/:id/cancel
+router.post(
+  '/:id/cancel',
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = cancelOrderSchema.parse(req.body);
+      const order = await orderService.cancelByCustomer(String(req.params.id), input, req.user!.id, req);
+
+      res.json({ success: true, data: order });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export const orderRoutes = router;
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+export const placeOrderSchema = z.object({
+  salesInstanceId: z.string(),
+  notes: z.string().max(500).optional(),
+  lines: z
+    .array(
+      z.object({
+        menuItemId: z.string(),
+        quantity: z.number().int().min(1).max(50),
+        notes: z.string().max(200).optional(),
+      })
+    )
+    .min(1, 'Order must contain at least one item'),
+});
+
+export const updateOrderStatusSchema = z.object({
+  status: z.enum(['ACCEPTED', 'PREPARING', 'READY', 'COLLECTED', 'CANCELLED']),
+  reason: z.string().max(500).optional(),
+});
+
+export const cancelOrderSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+export type PlaceOrderInput = z.infer<typeof placeOrderSchema>;
+export type UpdateOrderStatusInput = z.infer<typeof updateOrderStatusSchema>;
+export type CancelOrderInput = z.infer<typeof cancelOrderSchema>;
@@ -2,8 +2,17 @@ import { Router } from 'express';
 import type { Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { prisma } from '../../config/index.js';
-import { authenticate, requirePermission, NotFoundError } from '../../shared/middleware/index.js';
+import {
+  authenticate,
+  requirePermission,
+  requireVerifiedEmail,
+  hasPermission,
+  ScopeResolvers,
+  NotFoundError,
+  ValidationError,
+} from '../../shared/middleware/index.js';
 import { createAuditLog, AuditActions } from '../../shared/utils/index.js';
+import { clientService, createApiClientSchema } from '../identity/index.js';
 import type { AuthenticatedRequest, ApiResponse } from '../../shared/types/index.js';
 
 // Schemas
@@ -19,8 +28,11 @@ const updateOrgSchema = createOrgSchema.partial();
 const addMemberSchema = z.object({
   userId: z.string(),
   roleId: z.string(),
+  salesInstanceId: z.string().optional(),
 });
 
+const orgFromParam = ScopeResolvers.organizationParam('id');
+
 const router = Router();
 
 // GET /organizations
@@ -55,7 +67,7 @@ router.get(
   async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
     try {
       const org = await prisma.organization.findUnique({
-        where: { id: req.params.id },
+        where: { id: String(req.params.id) },
         include: {
           members: {
             include: {
@@ -113,13 +125,16 @@ router.post(
 router.patch(
   '/:id',
   authenticate,
-  requirePermission({ permission: 'organization.update' }),
+  requirePermission(
+    { permission: 'organization.update', resolve: orgFromParam },
+    { permission: 'organization.manage', resolve: orgFromParam }
+  ),
   async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
     try {
       const input = updateOrgSchema.parse(req.body);
 
       const org = await prisma.organization.update({
-        where: { id: req.params.id },
+        where: { id: String(req.params.id) },
         data: input,
       });
 
@@ -142,16 +157,40 @@ router.patch(
 router.post(
   '/:id/members',
   authenticate,
-  requirePermission({ permission: 'organization.member.add' }),
+  requireVerifiedEmail,
+  requirePermission({ permission: 'organization.member.add', resolve: orgFromParam }),
   async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
     try {
       const input = addMemberSchema.parse(req.body);
 
+      // Staff accounts only receive organization roles once their email is confirmed
+      const memberUser = await prisma.user.findUnique({ where: { id: input.userId } });
+      if (!memberUser) throw new NotFoundError('User');
+      if (!memberUser.emailVerified) {
+        throw new ValidationError('User must verify their email address before joining an organization');
+      }
+
+      // Internal roles can only be handed out by system administrators
+      const role = await prisma.role.findUnique({ where: { id: input.roleId } });
+      if (!role) throw new NotFoundError('Role');
+      if (role.domain === 'INTERNAL' && !hasPermission(req.user!, { permission: 'system.admin' })) {
+        throw new ValidationError('Internal roles cannot be assigned to organization members');
+      }
+
+      // A sales instance binding limits "own_location" scoped permissions to that stand
+      if (input.salesInstanceId) {
+        const instance = await prisma.salesInstance.findUnique({ where: { id: input.salesInstanceId } });
+        if (!instance || instance.organizationId !== String(req.params.id)) {
+          throw new ValidationError('Sales instance does not belong to this organization');
+        }
+      }
+
       const member = await prisma.userRoleAssignment.create({
         data: {
           userId: input.userId,
           roleId: input.roleId,
-          organizationId: req.params.id,
+          organizationId: String(req.params.id),
+          salesInstanceId: input.salesInstanceId,
           assignedBy: req.user!.id,
         },
         include: {
@@ -164,7 +203,7 @@ router.post(
         userId: req.user!.id,
         action: AuditActions.ORG_MEMBER_ADD,
         resource: 'organization',
-        resourceId: req.params.id,
+        resourceId: String(req.params.id),
         metadata: { memberId: input.userId },
         req,
       });
@@ -180,13 +219,13 @@ router.post(
 router.delete(
   '/:id/members/:userId',
   authenticate,
-  requirePermission({ permission: 'organization.member.remove' }),
+  requirePermission({ permission: 'organization.member.remove', resolve: orgFromParam }),
   async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
     try {
       await prisma.userRoleAssignment.deleteMany({
         where: {
-          organizationId: req.params.id,
-          userId: req.params.userId,
+          organizationId: String(req.params.id),
+          userId: String(req.params.userId),
         },
       });
 
@@ -194,8 +233,8 @@ router.delete(
         userId: req.user!.id,
         action: AuditActions.ORG_MEMBER_REMOVE,
         resource: 'organization',
-        resourceId: req.params.id,
-        metadata: { memberId: req.params.userId },
+        resourceId: String(req.params.id),
+        metadata: { memberId: String(req.params.userId) },
         req,
       });
 
@@ -206,4 +245,76 @@ router.delete(
   }
 );
 
+// ===== API CLIENTS =====
+
+// GET /organizations/:id/api-clients
+router.get(
+  '/:id/api-clients',
+  authenticate,
+  requirePermission({ permission: 'organization.manage', resolve: orgFromParam }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const clients = await clientService.listClients(String(req.params.id));
+
+      res.json({ success: true, data: clients });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /organizations/:id/api-clients
+router.post(
+  '/:id/api-clients',
+  authenticate,
+  requirePermission({ permission: 'organization.manage', resolve: orgFromParam }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = createApiClientSchema.parse(req.body);
+      const client = await clientService.createClient(String(req.params.id), input, req.user!, req);
+
+      res.status(201).json({ success: true, data: client });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /organizations/:id/api-clients/:clientId/rotate-secret
+router.post(
+  '/:id/api-clients/:clientId/rotate-secret',
+  authenticate,
+  requirePermission({ permission: 'organization.manage', resolve: orgFromParam }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const client = await clientService.rotateSecret(
+        String(req.params.id),
+        String(req.params.clientId),
+        req.user!.id,
+        req
+      );
+
+      res.json({ success: true, data: client });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /organizations/:id/api-clients/:clientId
+router.delete(
+  '/:id/api-clients/:clientId',
+  authenticate,
+  requirePermission({ permission: 'organization.manage', resolve: orgFromParam }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      await clientService.revokeClient(String(req.params.id), String(req.params.clientId), req.user!.id, req);
+
+      res.json({ success: true, data: { message: 'API client revoked' } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export const organizationRoutes = router;
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { productAllergens } from './allergens.js';
+
+function link(code: string | null, isOptional = false) {
+  return { isOptional, ingredient: { allergenInfo: code ? { code, name: code } : null } };
+}
+
+describe('productAllergens', () => {
+  it('lists the allergens of mandatory ingredients as contained', () => {
+    expect(productAllergens({ ingredients: [link('A'), link('G'), link(null)] })).toEqual(
+      new Map([
+        ['A', 'contains'],
+        ['G', 'contains'],
+      ])
+    );
+  });
+
+  it('marks allergens only present through optional ingredients as may contain', () => {
+    expect(productAllergens({ ingredients: [link('C', true)] }).get('C')).toBe('may_contain');
+  });
+
+  it('lets a mandatory ingredient win over an optional one in any order', () => {
+    expect(productAllergens({ ingredients: [link('G', true), link('G')] }).get('G')).toBe('contains');
+    expect(productAllergens({ ingredients: [link('G'), link('G', true)] }).get('G')).toBe('contains');
+  });
+
+  it('is empty for products without allergens', () => {
+    expect(productAllergens({ ingredients: [] }).size).toBe(0);
+  });
+});
@@ -0,0 +1,303 @@
+import PDFDocument from 'pdfkit';
+import { prisma } from '../../config/index.js';
+import { NotFoundError } from '../../shared/middleware/index.js';
+
+export type AllergenLevel = 'contains' | 'may_contain';
+
+export const DECLARATION_LANGUAGES = ['de', 'es'] as const;
+export type DeclarationLanguage = (typeof DECLARATION_LANGUAGES)[number];
+
+interface ProductWithIngredients {
+  ingredients: Array<{
+    isOptional: boolean;
+    ingredient: { allergenInfo: { code: string; name: string } | null };
+  }>;
+}
+
+// Allergens of a product by EU code. Optional ingredients (toppings, sauces on request)
+// only make a product "may contain"; any mandatory ingredient makes it "contains".
+export function productAllergens(product: ProductWithIngredients): Map<string, AllergenLevel> {
+  const levels = new Map<string, AllergenLevel>();
+
+  for (const { ingredient, isOptional } of product.ingredients) {
+    if (!ingredient.allergenInfo) continue;
+
+    const { code } = ingredient.allergenInfo;
+    if (!isOptional) {
+      levels.set(code, 'contains');
+    } else if (!levels.has(code)) {
+      levels.set(code, 'may_contain');
+    }
+  }
+
+  return levels;
+}
+
+// Official designations from Annex II of Regulation (EU) No 1169/2011
+const ALLERGEN_NAMES: Record<DeclarationLanguage, Record<string, string>> = {
+  de: {
+    A: 'Glutenhaltiges Getreide',
+    B: 'Krebstiere',
+    C: 'Eier',
+    D: 'Fisch',
+    E: 'Erdnüsse',
+    F: 'Soja',
+    G: 'Milch (einschließlich Laktose)',
+    H: 'Schalenfrüchte',
+    I: 'Sellerie',
+    J: 'Senf',
+    K: 'Sesamsamen',
+    L: 'Schwefeldioxid und Sulphite',
+    M: 'Lupinen',
+    N: 'Weichtiere',
+  },
+  es: {
+    A: 'Cereales que contienen gluten',
+    B: 'Crustáceos',
+    C: 'Huevos',
+    D: 'Pescado',
+    E: 'Cacahuetes',
+    F: 'Soja',
+    G: 'Leche (incluida la lactosa)',
+    H: 'Frutos de cáscara',
+    I: 'Apio',
+    J: 'Mostaza',
+    K: 'Granos de sésamo',
+    L: 'Dióxido de azufre y sulfitos',
+    M: 'Altramuces',
+    N: 'Moluscos',
+  },
+};
+
+const LABELS: Record<DeclarationLanguage, Record<string, string>> = {
+  de: {
+    title: 'Allergenkennzeichnung',
+    product: 'Gericht',
+    contains: 'enthalten',
+    mayContain: 'kann Spuren enthalten',
+    legend: 'Legende',
+    asOf: 'Stand',
+    legal:
+      'Angaben gemäß Verordnung (EU) Nr. 1169/2011 (LMIV). Bei Fragen zu Zutaten und ' +
+      'Allergenen wenden Sie sich bitte an unser Personal.',
+  },
+  es: {
+    title: 'Información sobre alérgenos',
+    product: 'Plato',
+    contains: 'contiene',
+    mayContain: 'puede contener trazas',
+    legend: 'Leyenda',
+    asOf: 'Actualizado',
+    legal:
+      'Información conforme al Reglamento (UE) n.º 1169/2011. Si tiene preguntas sobre ' +
+      'ingredientes o alérgenos, consulte a nuestro personal.',
+  },
+};
+
+export interface AllergenMatrix {
+  menu: { id: string; name: string };
+  generatedAt: Date;
+  allergens: Array<{ code: string; name: string }>;
+  products: Array<{
+    productId: string;
+    name: string;
+    allergens: Record<string, AllergenLevel | null>;
+  }>;
+}
+
+// Product x allergen matrix over every item on a menu, in display order
+export async function buildAllergenMatrix(menuId: string): Promise<AllergenMatrix> {
+  const [menu, allergens] = await Promise.all([
+    prisma.menu.findUnique({
+      where: { id: menuId },
+      include: {
+        items: {
+          where: { product: { archivedAt: null } },
+          include: {
+            product: {
+              include: {
+                ingredients: { include: { ingredient: { include: { allergenInfo: true } } } },
+              },
+            },
+          },
+          orderBy: { displayOrder: 'asc' },
+        },
+      },
+    }),
+    prisma.allergen.findMany({ orderBy: { code: 'asc' } }),
+  ]);
+
+  if (!menu) throw new NotFoundError('Menu');
+
+  return {
+    menu: { id: menu.id, name: menu.name },
+    generatedAt: new Date(),
+    allergens: allergens.map(({ code, name }) => ({ code, name })),
+    products: menu.items.map(({ product }) => {
+      const levels = productAllergens(product);
+      return {
+        productId: product.id,
+        name: product.name,
+        allergens: Object.fromEntries(allergens.map(({ code }) => [code, levels.get(code) ?? null])),
+      };
+    }),
+  };
+}
+
+function allergenName(code: string, fallback: string, lang: DeclarationLanguage): string {
+  return ALLERGEN_NAMES[lang][code] ?? fallback;
+}
+
+function formatDate(date: Date, lang: DeclarationLanguage): string {
+  return date.toLocaleDateString(lang === 'de' ? 'de-DE' : 'es-ES', { timeZone: 'Europe/Berlin' });
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Standalone A4 landscape page meant to be printed and posted at the counter
+export function renderAllergenHtml(matrix: AllergenMatrix, lang: DeclarationLanguage): string {
+  const labels = LABELS[lang];
+  const symbol = { contains: '●', may_contain: '○' } as const;
+
+  const header = matrix.allergens
+    .map(({ code, name }) => `<th title="${escapeHtml(allergenName(code, name, lang))}">${code}</th>`)
+    .join('');
+
+  const rows = matrix.products
+    .map((product) => {
+      const cells = matrix.allergens
+        .map(({ code }) => {
+          const level = product.allergens[code];
+          return `<td>${level ? symbol[level] : ''}</td>`;
+        })
+        .join('');
+      return `<tr><th scope="row">${escapeHtml(product.name)}</th>${cells}</tr>`;
+    })
+    .join('\n');
+
+  const legend = matrix.allergens
+    .map(({ code, name }) => `<li><strong>${code}</strong> ${escapeHtml(allergenName(code, name, lang))}</li>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="${lang}">
+<head>
+<meta charset="utf-8">
+<title>${labels.title} – ${escapeHtml(matrix.menu.name)}</title>
+<style>
+  @page { size: A4 landscape; margin: 12mm; }
+  body { font-family: Helvetica, Arial, sans-serif; font-size: 11pt; color: #000; }
+  h1 { font-size: 18pt; margin: 0 0 4mm; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #000; padding: 2mm; text-align: center; }
+  tbody th { text-align: left; font-weight: normal; }
+  ul { columns: 2; list-style: none; padding: 0; }
+  footer { margin-top: 4mm; font-size: 9pt; }
+</style>
+</head>
+<body>
+<h1>${labels.title} – ${escapeHtml(matrix.menu.name)}</h1>
+<table>
+<thead><tr><th>${labels.product}</th>${header}</tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+<p>${symbol.contains} ${labels.contains} &nbsp; ${symbol.may_contain} ${labels.mayContain}</p>
+<h2>${labels.legend}</h2>
+<ul>${legend}</ul>
+<footer>${labels.asOf}: ${formatDate(matrix.generatedAt, lang)}. ${labels.legal}</footer>
+</body>
+</html>
+`;
+}
+
+// Same layout as the HTML page; markers are drawn since the standard fonts lack the symbols
+export function renderAllergenPdf(matrix: AllergenMatrix, lang: DeclarationLanguage): Promise<Buffer> {
+  const labels = LABELS[lang];
+  const doc = new PDFDocument({ size: 'A4', layout: 'landscape', margin: 36 });
+  const chunks: Buffer[] = [];
+
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const left = doc.page.margins.left;
+  const width = doc.page.width - left - doc.page.margins.right;
+  const nameWidth = Math.min(260, width * 0.35);
+  const cellWidth = (width - nameWidth) / Math.max(1, matrix.allergens.length);
+  const rowHeight = 18;
+
+  const drawMarker = (level: AllergenLevel, x: number, y: number) => {
+    doc.circle(x + cellWidth / 2, y + rowHeight / 2, 4);
+    if (level === 'contains') {
+      doc.fill('black');
+    } else {
+      doc.lineWidth(1).stroke('black');
+    }
+  };
+
+  const drawRow = (y: number, label: string, cells: Array<string | AllergenLevel | null>, bold = false) => {
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+    doc.rect(left, y, nameWidth, rowHeight).stroke();
+    doc.text(label, left + 4, y + 5, { width: nameWidth - 8, height: rowHeight - 4, ellipsis: true });
+
+    cells.forEach((cell, index) => {
+      const x = left + nameWidth + index * cellWidth;
+      doc.rect(x, y, cellWidth, rowHeight).stroke();
+      if (cell === 'contains' || cell === 'may_contain') {
+        drawMarker(cell, x, y);
+      } else if (cell) {
+        doc.text(cell, x, y + 5, { width: cellWidth, align: 'center' });
+      }
+    });
+  };
+
+  const drawHeader = (y: number) => {
+    drawRow(y, labels.product, matrix.allergens.map(({ code }) => code), true);
+    return y + rowHeight;
+  };
+
+  doc.font('Helvetica-Bold').fontSize(16).text(`${labels.title} – ${matrix.menu.name}`, left, doc.page.margins.top);
+  let y = drawHeader(doc.y + 10);
+
+  for (const product of matrix.products) {
+    if (y + rowHeight > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+      y = drawHeader(doc.page.margins.top);
+    }
+    drawRow(y, product.name, matrix.allergens.map(({ code }) => product.allergens[code]));
+    y += rowHeight;
+  }
+
+  // Legend and legal note; pdfkit flows onto a new page when needed
+  const legendY = y + 12;
+  doc.font('Helvetica').fontSize(9);
+  doc.circle(left + 4, legendY + 4, 4).fill('black');
+  doc.text(labels.contains, left + 14, legendY);
+  doc.circle(left + 134, legendY + 4, 4).lineWidth(1).stroke('black');
+  doc.text(labels.mayContain, left + 144, legendY);
+
+  doc.x = left;
+  doc.y = legendY + 16;
+  doc.text(
+    matrix.allergens
+      .map(({ code, name }) => `${code}: ${allergenName(code, name, lang)}`)
+      .join('  ·  '),
+    { width }
+  );
+  doc.moveDown(0.5);
+  doc.text(`${labels.asOf}: ${formatDate(matrix.generatedAt, lang)}. ${labels.legal}`, { width });
+
+  doc.end();
+  return done;
+}
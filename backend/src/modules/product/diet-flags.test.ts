@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { ingredientDietFlag, deriveDietFlags, findDietFlagConflicts } from './diet-flags.js';
+
+function ingredient(
+  id: string,
+  flags: { isVegan?: boolean | null; isVegetarian?: boolean | null; isGlutenFree?: boolean | null },
+  allergen: string | null = null
+) {
+  return {
+    id,
+    name: id,
+    isVegan: flags.isVegan ?? null,
+    isVegetarian: flags.isVegetarian ?? null,
+    isGlutenFree: flags.isGlutenFree ?? null,
+    allergenInfo: allergen ? { code: allergen } : null,
+  };
+}
+
+const beans = ingredient('beans', { isVegan: true, isGlutenFree: true });
+const rice = ingredient('rice', { isVegan: true, isVegetarian: true, isGlutenFree: true });
+const cheese = ingredient('cheese', { isVegan: false, isVegetarian: true, isGlutenFree: true }, 'G');
+const tortilla = ingredient('tortilla', {}, 'A');
+
+describe('ingredientDietFlag', () => {
+  it('treats vegan ingredients as vegetarian', () => {
+    expect(ingredientDietFlag(beans, 'isVegetarian')).toBe(true);
+  });
+
+  it('rules diets out through allergens even when unclassified', () => {
+    expect(ingredientDietFlag(tortilla, 'isGlutenFree')).toBe(false);
+    expect(ingredientDietFlag(ingredient('egg', { isVegan: true }, 'C'), 'isVegan')).toBe(false);
+  });
+
+  it('is null when nothing is known', () => {
+    expect(ingredientDietFlag(tortilla, 'isVegan')).toBeNull();
+  });
+});
+
+describe('deriveDietFlags', () => {
+  it('holds a diet when every ingredient meets it', () => {
+    const derived = deriveDietFlags([beans, rice]);
+    expect(derived.isVegan).toEqual({ value: true, violatedBy: [], unclassified: [] });
+    expect(derived.isGlutenFree.value).toBe(true);
+  });
+
+  it('names the ingredients that break a diet', () => {
+    const derived = deriveDietFlags([beans, cheese, tortilla]);
+    expect(derived.isVegan.value).toBe(false);
+    expect(derived.isVegan.violatedBy).toEqual([{ id: 'cheese', name: 'cheese' }]);
+    expect(derived.isGlutenFree.violatedBy).toEqual([{ id: 'tortilla', name: 'tortilla' }]);
+  });
+
+  it('is undecided while ingredients are unclassified or missing', () => {
+    const derived = deriveDietFlags([beans, tortilla]);
+    expect(derived.isVegan.value).toBeNull();
+    expect(derived.isVegan.unclassified).toEqual([{ id: 'tortilla', name: 'tortilla' }]);
+    expect(deriveDietFlags([]).isVegetarian.value).toBeNull();
+  });
+});
+
+describe('findDietFlagConflicts', () => {
+  it('reports declared flags the ingredients disprove', () => {
+    const conflicts = findDietFlagConflicts({ isVegan: true, isVegetarian: true, isGlutenFree: true }, [beans, cheese]);
+    expect(conflicts).toEqual([
+      { flag: 'isVegan', declared: true, derived: false, violatedBy: [{ id: 'cheese', name: 'cheese' }] },
+    ]);
+  });
+
+  it('leaves undecided and undeclared flags alone', () => {
+    expect(findDietFlagConflicts({ isVegan: true, isVegetarian: false, isGlutenFree: false }, [tortilla])).toEqual([]);
+    expect(findDietFlagConflicts({ isVegan: false, isVegetarian: false, isGlutenFree: false }, [cheese])).toEqual([]);
+  });
+});
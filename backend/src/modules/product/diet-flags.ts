@@ -0,0 +1,139 @@
+import { prisma } from '../../config/index.js';
+import { ValidationError } from '../../shared/middleware/index.js';
+
+export const DIET_FLAGS = ['isVegan', 'isVegetarian', 'isGlutenFree'] as const;
+export type DietFlag = (typeof DIET_FLAGS)[number];
+export type DietFlags = Record<DietFlag, boolean>;
+
+interface ClassifiableIngredient {
+  id: string;
+  name: string;
+  isVegan: boolean | null;
+  isVegetarian: boolean | null;
+  isGlutenFree: boolean | null;
+  allergenInfo: { code: string } | null;
+}
+
+// Allergens that rule a diet out even when the ingredient itself is unclassified
+const EXCLUDED_BY_ALLERGEN: Record<DietFlag, string[]> = {
+  isVegan: ['B', 'C', 'D', 'G', 'N'], // crustaceans, eggs, fish, milk, molluscs
+  isVegetarian: ['B', 'D', 'N'],
+  isGlutenFree: ['A'],
+};
+
+// true / false when known, null when the ingredient is not classified for the diet
+export function ingredientDietFlag(ingredient: ClassifiableIngredient, flag: DietFlag): boolean | null {
+  if (ingredient.allergenInfo && EXCLUDED_BY_ALLERGEN[flag].includes(ingredient.allergenInfo.code)) {
+    return false;
+  }
+  // Anything vegan is vegetarian as well
+  if (flag === 'isVegetarian' && ingredient.isVegan === true) {
+    return true;
+  }
+  return ingredient[flag];
+}
+
+export interface DerivedDietFlag {
+  value: boolean | null;
+  violatedBy: Array<{ id: string; name: string }>;
+  unclassified: Array<{ id: string; name: string }>;
+}
+
+// A product meets a diet when every ingredient does. Optional ingredients count too:
+// a "vegan" dish must not be served with cheese on request.
+export function deriveDietFlags(
+  ingredients: ClassifiableIngredient[]
+): Record<DietFlag, DerivedDietFlag> {
+  const derive = (flag: DietFlag): DerivedDietFlag => {
+    const violatedBy = ingredients.filter((ingredient) => ingredientDietFlag(ingredient, flag) === false);
+    const unclassified = ingredients.filter((ingredient) => ingredientDietFlag(ingredient, flag) === null);
+    const pick = ({ id, name }: ClassifiableIngredient) => ({ id, name });
+
+    let value: boolean | null = true;
+    if (violatedBy.length > 0) {
+      value = false;
+    } else if (unclassified.length > 0 || ingredients.length === 0) {
+      value = null;
+    }
+
+    return {
+      value,
+      violatedBy: violatedBy.map(pick),
+      unclassified: unclassified.map(pick),
+    };
+  };
+
+  return {
+    isVegan: derive('isVegan'),
+    isVegetarian: derive('isVegetarian'),
+    isGlutenFree: derive('isGlutenFree'),
+  };
+}
+
+export interface DietFlagConflict {
+  flag: DietFlag;
+  declared: boolean;
+  derived: boolean | null;
+  violatedBy: Array<{ id: string; name: string }>;
+}
+
+// Declared flags that the ingredients prove wrong
+export function findDietFlagConflicts(
+  declared: DietFlags,
+  ingredients: ClassifiableIngredient[]
+): DietFlagConflict[] {
+  const derived = deriveDietFlags(ingredients);
+
+  return DIET_FLAGS.filter((flag) => declared[flag] && derived[flag].value === false).map((flag) => ({
+    flag,
+    declared: declared[flag],
+    derived: derived[flag].value,
+    violatedBy: derived[flag].violatedBy,
+  }));
+}
+
+// Flags for a new or changed product: omitted flags are derived (unknown counts as
+// false), declared flags must not contradict the ingredients
+export async function resolveDietFlags(
+  declared: Partial<DietFlags>,
+  ingredientIds: string[]
+): Promise<DietFlags> {
+  const ingredients = await prisma.ingredient.findMany({
+    where: { id: { in: ingredientIds } },
+    include: { allergenInfo: true },
+  });
+
+  if (ingredients.length !== new Set(ingredientIds).size) {
+    throw new ValidationError('Unknown ingredient');
+  }
+
+  const derived = deriveDietFlags(ingredients);
+  const flags = Object.fromEntries(
+    DIET_FLAGS.map((flag) => [flag, declared[flag] ?? derived[flag].value ?? false])
+  ) as DietFlags;
+
+  const conflicts = findDietFlagConflicts(flags, ingredients);
+  if (conflicts.length > 0) {
+    throw new ValidationError('Diet flags contradict the ingredients', conflicts);
+  }
+
+  return flags;
+}
+
+// Every product whose declared flags contradict its ingredients
+export async function buildDietConsistencyReport() {
+  const products = await prisma.product.findMany({
+    include: { ingredients: { include: { ingredient: { include: { allergenInfo: true } } } } },
+    orderBy: { name: 'asc' },
+  });
+
+  return products.flatMap((product) => {
+    const conflicts = findDietFlagConflicts(
+      product,
+      product.ingredients.map(({ ingredient }) => ingredient)
+    );
+    if (conflicts.length === 0) return [];
+
+    return [{ productId: product.id, name: product.name, isActive: product.isActive, conflicts }];
+  });
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { annotateProduct } from './dietary.js';
+
+function ingredient(name: string, allergen: string | null = null, isOptional = false) {
+  return { isOptional, ingredient: { name, allergenInfo: allergen ? { code: allergen, name: allergen } : null } };
+}
+
+// Enchiladas with cheese, and sour cream and cilantro on request
+const enchiladas = {
+  isVegan: false,
+  isVegetarian: true,
+  isGlutenFree: true,
+  ingredients: [
+    ingredient('Maistortilla'),
+    ingredient('Käse', 'G'),
+    ingredient('Sauerrahm', 'G', true),
+    ingredient('Koriander', null, true),
+  ],
+};
+
+function restriction(type: string, name: string, severity: string | null = null) {
+  return { type, name, severity };
+}
+
+describe('annotateProduct', () => {
+  it('is safe without matching restrictions', () => {
+    expect(annotateProduct(enchiladas, [restriction('allergy', 'peanuts'), restriction('diet', 'vegetarian')])).toEqual({
+      status: 'safe',
+      findings: [],
+    });
+  });
+
+  it('marks contained allergens as unsafe for allergies', () => {
+    const { status, findings } = annotateProduct(enchiladas, [restriction('allergy', 'Milk')]);
+    expect(status).toBe('unsafe');
+    expect(findings).toEqual([
+      { restriction: 'Milk', status: 'unsafe', reason: 'Contains allergen', allergen: 'G', ingredient: 'Käse' },
+    ]);
+  });
+
+  it('accepts EU allergen codes as restriction names', () => {
+    expect(annotateProduct(enchiladas, [restriction('allergy', 'g')]).status).toBe('unsafe');
+  });
+
+  it('only cautions about intolerances unless they are severe', () => {
+    expect(annotateProduct(enchiladas, [restriction('intolerance', 'lactose')]).status).toBe('caution');
+    expect(annotateProduct(enchiladas, [restriction('intolerance', 'lactose', 'severe')]).status).toBe('unsafe');
+  });
+
+  it('cautions about allergens from optional ingredients', () => {
+    const withoutCheese = {
+      ...enchiladas,
+      ingredients: enchiladas.ingredients.filter(({ ingredient }) => ingredient.name !== 'Käse'),
+    };
+    const { status, findings } = annotateProduct(withoutCheese, [restriction('allergy', 'dairy')]);
+    expect(status).toBe('caution');
+    expect(findings[0].reason).toBe('May contain allergen');
+  });
+
+  it('checks diets against the product flags', () => {
+    const { status, findings } = annotateProduct(enchiladas, [restriction('diet', 'Vegan')]);
+    expect(status).toBe('unsafe');
+    expect(findings[0].reason).toBe('Not vegan');
+  });
+
+  it('cautions about gluten when the product is not declared gluten-free', () => {
+    const { status, findings } = annotateProduct({ ...enchiladas, isGlutenFree: false }, [
+      restriction('intolerance', 'gluten', 'severe'),
+    ]);
+    expect(status).toBe('caution');
+    expect(findings[0].reason).toBe('Not declared gluten-free');
+  });
+
+  it('matches restrictions on single ingredients by name', () => {
+    const findings = annotateProduct(enchiladas, [restriction('allergy', 'koriander')]).findings;
+    expect(findings).toEqual([
+      { restriction: 'koriander', status: 'caution', reason: 'May contain ingredient', ingredient: 'Koriander' },
+    ]);
+  });
+});
@@ -0,0 +1,183 @@
+import { prisma } from '../../config/index.js';
+import { productAllergens } from './allergens.js';
+import type { AuthenticatedRequest } from '../../shared/types/index.js';
+
+export const DIETARY_CONSENT = 'dietary_recommendations';
+
+export type DietaryStatus = 'safe' | 'caution' | 'unsafe';
+
+export interface DietaryRestrictionInput {
+  type: string; // "allergy", "intolerance" or "diet"
+  name: string;
+  severity: string | null;
+}
+
+export interface DietaryFinding {
+  restriction: string;
+  status: Exclude<DietaryStatus, 'safe'>;
+  reason: string;
+  allergen?: string;
+  ingredient?: string;
+}
+
+export interface DietaryAnnotation {
+  status: DietaryStatus;
+  findings: DietaryFinding[];
+}
+
+interface AnnotatableProduct {
+  isVegan: boolean;
+  isVegetarian: boolean;
+  isGlutenFree: boolean;
+  ingredients: Array<{
+    isOptional: boolean;
+    ingredient: { name: string; allergenInfo: { code: string; name: string } | null };
+  }>;
+}
+
+// Words consumers use for each EU allergen, matched against DietaryRestriction.name
+const ALLERGEN_KEYWORDS: Record<string, string[]> = {
+  A: ['gluten', 'wheat', 'celiac', 'coeliac'],
+  B: ['crustaceans', 'crustacean', 'shellfish', 'shrimp'],
+  C: ['eggs', 'egg'],
+  D: ['fish'],
+  E: ['peanuts', 'peanut'],
+  F: ['soybeans', 'soy', 'soya'],
+  G: ['milk', 'lactose', 'dairy'],
+  H: ['nuts', 'tree nuts'],
+  I: ['celery'],
+  J: ['mustard'],
+  K: ['sesame', 'sesame seeds'],
+  L: ['sulphites', 'sulfites'],
+  M: ['lupin'],
+  N: ['molluscs', 'mollusks'],
+};
+
+// Diets answered by the product flags
+const DIET_FLAGS: Record<string, keyof Pick<AnnotatableProduct, 'isVegan' | 'isVegetarian' | 'isGlutenFree'>> = {
+  vegan: 'isVegan',
+  vegetarian: 'isVegetarian',
+  gluten_free: 'isGlutenFree',
+  'gluten-free': 'isGlutenFree',
+  glutenfree: 'isGlutenFree',
+};
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function allergenCodeFor(restriction: string): string | undefined {
+  const name = normalize(restriction);
+  if (/^[a-n]$/.test(name)) return name.toUpperCase();
+  return Object.keys(ALLERGEN_KEYWORDS).find((code) => ALLERGEN_KEYWORDS[code].includes(name));
+}
+
+// Checks one product against a consumer's restrictions. Allergies are unsafe when an
+// ingredient contains the allergen and a caution when it may be present through an
+// optional ingredient; intolerances are only unsafe when marked severe.
+export function annotateProduct(
+  product: AnnotatableProduct,
+  restrictions: DietaryRestrictionInput[]
+): DietaryAnnotation {
+  const findings: DietaryFinding[] = [];
+  const allergens = productAllergens(product);
+
+  for (const restriction of restrictions) {
+    const name = normalize(restriction.name);
+
+    if (restriction.type === 'diet') {
+      const flag = DIET_FLAGS[name];
+      if (flag && !product[flag]) {
+        findings.push({
+          restriction: restriction.name,
+          status: 'unsafe',
+          reason: `Not ${name.replace(/[-_]/g, ' ')}`,
+        });
+      }
+      continue;
+    }
+
+    const severe = restriction.type === 'allergy' || normalize(restriction.severity ?? '') === 'severe';
+    const code = allergenCodeFor(name);
+
+    if (code) {
+      const level = allergens.get(code);
+      const source = product.ingredients.find(({ ingredient }) => ingredient.allergenInfo?.code === code);
+
+      if (level) {
+        findings.push({
+          restriction: restriction.name,
+          status: level === 'contains' && severe ? 'unsafe' : 'caution',
+          reason: level === 'contains' ? 'Contains allergen' : 'May contain allergen',
+          allergen: code,
+          ingredient: source?.ingredient.name,
+        });
+      } else if (code === 'A' && !product.isGlutenFree) {
+        // Gluten is often hidden in undeclared ingredients; only the flag vouches for it
+        findings.push({
+          restriction: restriction.name,
+          status: 'caution',
+          reason: 'Not declared gluten-free',
+          allergen: code,
+        });
+      }
+      continue;
+    }
+
+    // Restrictions on a specific ingredient (e.g. "cilantro")
+    const match = product.ingredients.find(({ ingredient }) => normalize(ingredient.name) === name);
+    if (match) {
+      findings.push({
+        restriction: restriction.name,
+        status: match.isOptional || !severe ? 'caution' : 'unsafe',
+        reason: match.isOptional ? 'May contain ingredient' : 'Contains ingredient',
+        ingredient: match.ingredient.name,
+      });
+    }
+  }
+
+  const status: DietaryStatus = findings.some((finding) => finding.status === 'unsafe')
+    ? 'unsafe'
+    : findings.length > 0
+      ? 'caution'
+      : 'safe';
+
+  return { status, findings };
+}
+
+// Restrictions to personalize responses with, or null without an active consent
+export async function loadDietaryRestrictions(userId: string): Promise<DietaryRestrictionInput[] | null> {
+  const profile = await prisma.profile.findUnique({
+    where: { userId },
+    include: {
+      dietaryRestrictions: true,
+      consents: {
+        where: { type: DIETARY_CONSENT, revokedAt: null },
+        orderBy: { grantedAt: 'desc' },
+        take: 1,
+      },
+    },
+  });
+
+  if (!profile || !profile.consents[0]?.granted) return null;
+
+  return profile.dietaryRestrictions.map(({ type, name, severity }) => ({ type, name, severity }));
+}
+
+export async function dietaryRestrictionsFor(
+  req: AuthenticatedRequest
+): Promise<DietaryRestrictionInput[] | null> {
+  return req.user ? loadDietaryRestrictions(req.user.id) : null;
+}
+
+// Adds a `dietary` annotation to each entry and optionally drops unsafe ones
+export function personalize<T>(
+  entries: T[],
+  productOf: (entry: T) => AnnotatableProduct,
+  restrictions: DietaryRestrictionInput[],
+  hideUnsafe = false
+): Array<T & { dietary: DietaryAnnotation }> {
+  return entries
+    .map((entry) => ({ ...entry, dietary: annotateProduct(productOf(entry), restrictions) }))
+    .filter((entry) => !hideUnsafe || entry.dietary.status !== 'unsafe');
+}
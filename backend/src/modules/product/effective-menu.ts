@@ -0,0 +1,142 @@
+import { prisma } from '../../config/index.js';
+import { NotFoundError } from '../../shared/middleware/index.js';
+import { isMenuVisible, evaluateMenu } from './menu-rules.js';
+import { productAllergens } from './allergens.js';
+import { annotateProduct } from './dietary.js';
+import { applyMenuItemPrices } from './pricing.js';
+import { localize } from './translations.js';
+import { CONTENT_LANGUAGE } from '../../shared/utils/index.js';
+import type { Language } from '../../shared/utils/index.js';
+import type { DietaryRestrictionInput } from './dietary.js';
+
+export interface EffectiveMenuAllergen {
+  code: string;
+  name: string;
+  // Only present through optional ingredients of every item that lists it
+  optional: boolean;
+}
+
+const menuInclude = {
+  items: {
+    include: {
+      product: {
+        include: {
+          ingredients: { include: { ingredient: { include: { allergenInfo: true } } } },
+        },
+      },
+    },
+  },
+};
+
+export interface EffectiveMenuOptions {
+  // Annotates items for a consumer who consented to dietary recommendations
+  restrictions?: DietaryRestrictionInput[] | null;
+  hideUnsafe?: boolean;
+  // Fallback chain for names and descriptions
+  languages?: Language[];
+}
+
+// Resolves what a sales instance serves at a given moment: the primary menu when it
+// applies, otherwise the longest-assigned menu that does, with final prices and allergens.
+export async function resolveEffectiveMenu(
+  salesInstanceId: string,
+  at: Date,
+  options: EffectiveMenuOptions = {}
+) {
+  const salesInstance = await prisma.salesInstance.findUnique({
+    where: { id: salesInstanceId },
+    include: {
+      menuAssignments: {
+        include: { menu: { include: menuInclude } },
+        orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }],
+      },
+      stockItems: { where: { productId: { not: null } }, select: { productId: true, quantity: true } },
+    },
+  });
+
+  if (!salesInstance || !salesInstance.isActive) {
+    throw new NotFoundError('Sales instance');
+  }
+
+  const stock = new Map(salesInstance.stockItems.map((item) => [item.productId!, item.quantity.toNumber()]));
+  const context = {
+    at,
+    salesInstanceType: salesInstance.type,
+    timezone: salesInstance.timezone,
+    stockLevel: (productId: string) => stock.get(productId),
+  };
+  const assignment = salesInstance.menuAssignments.find(({ menu }) => isMenuVisible(menu, context));
+
+  const summary = {
+    salesInstance: { id: salesInstance.id, name: salesInstance.name, type: salesInstance.type },
+    at,
+  };
+
+  if (!assignment) {
+    return { ...summary, menu: null, items: [], allergens: [] };
+  }
+
+  const { menu } = assignment;
+  const { restrictions, hideUnsafe = false, languages = [CONTENT_LANGUAGE] } = options;
+  const pricedItems = await applyMenuItemPrices(
+    evaluateMenu(menu, context).filter((item) => item.product.isActive),
+    at
+  );
+  const dietaryOf = (item: (typeof pricedItems)[number]) =>
+    restrictions ? annotateProduct(item.product, restrictions) : undefined;
+
+  const visibleItems = pricedItems
+    .map((item) => ({ item, dietary: dietaryOf(item) }))
+    .filter(({ dietary }) => !hideUnsafe || dietary?.status !== 'unsafe');
+  const merged = new Map<string, EffectiveMenuAllergen>();
+
+  const items = visibleItems.map(({ item, dietary }) => {
+    const content = localize(item.product, languages);
+    const names = new Map(
+      item.product.ingredients.flatMap(({ ingredient }) =>
+        ingredient.allergenInfo ? [[ingredient.allergenInfo.code, ingredient.allergenInfo.name]] : []
+      )
+    );
+    const allergens = [...productAllergens(item.product)].map(([code, level]) => ({
+      code,
+      name: names.get(code)!,
+      optional: level === 'may_contain',
+    }));
+
+    for (const allergen of allergens) {
+      const current = merged.get(allergen.code);
+      merged.set(allergen.code, {
+        ...allergen,
+        optional: (current?.optional ?? true) && allergen.optional,
+      });
+    }
+
+    return {
+      menuItemId: item.id,
+      productId: item.productId,
+      name: content.name,
+      description: content.description,
+      imageUrl: item.product.imageUrl,
+      price: item.price,
+      isVegan: item.product.isVegan,
+      isVegetarian: item.product.isVegetarian,
+      isGlutenFree: item.product.isGlutenFree,
+      allergens: allergens.sort((a, b) => a.code.localeCompare(b.code)),
+      ...(dietary && { dietary }),
+    };
+  });
+
+  const menuContent = localize(menu, languages);
+
+  return {
+    ...summary,
+    menu: {
+      id: menu.id,
+      name: menuContent.name,
+      description: menuContent.description,
+      isPrimary: assignment.isPrimary,
+    },
+    items,
+    allergens: [...merged.values()].sort((a, b) => a.code.localeCompare(b.code)),
+  };
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { Prisma } from '@prisma/client';
+import { calculateFoodCost, marginOf } from './food-cost.js';
+
+const decimal = (value: number | string) => new Prisma.Decimal(value);
+
+function line(
+  id: string,
+  quantity: number | null,
+  unit: string | null,
+  costPerUnit: number | null,
+  costUnit: string | null,
+  isOptional = false
+) {
+  return {
+    isOptional,
+    quantity: quantity === null ? null : decimal(quantity),
+    unit,
+    ingredient: { id, name: id, costPerUnit: costPerUnit === null ? null : decimal(costPerUnit), costUnit },
+  };
+}
+
+describe('calculateFoodCost', () => {
+  it('adds up the required ingredients, converting units', () => {
+    const result = calculateFoodCost([
+      line('tortilla', 2, 'pcs', 0.15, 'pcs'),
+      line('beef', 120, 'g', 14.5, 'kg'),
+      line('salsa', 30, 'ml', 6, 'l'),
+    ]);
+
+    expect(result.missing).toEqual([]);
+    expect(result.cost?.toString()).toBe('2.22');
+    expect(result.lines.map(({ ingredientId, cost }) => [ingredientId, cost.toString()])).toEqual([
+      ['tortilla', '0.3'],
+      ['beef', '1.74'],
+      ['salsa', '0.18'],
+    ]);
+  });
+
+  it('leaves optional extras out', () => {
+    const result = calculateFoodCost([line('beans', 100, 'g', 4, 'kg'), line('guacamole', 50, 'g', 20, 'kg', true)]);
+    expect(result.cost?.toString()).toBe('0.4');
+    expect(result.lines).toHaveLength(1);
+  });
+
+  it('has no total while a required line cannot be costed', () => {
+    const result = calculateFoodCost([
+      line('beans', 100, 'g', 4, 'kg'),
+      line('lime', null, null, 0.2, 'pcs'),
+      line('cheese', 40, 'g', null, null),
+      line('onion', 1, 'pcs', 1.2, 'kg'),
+    ]);
+
+    expect(result.cost).toBeNull();
+    expect(result.missing).toEqual([
+      { ingredientId: 'lime', name: 'lime', reason: 'No quantity on the recipe line' },
+      { ingredientId: 'cheese', name: 'cheese', reason: 'No purchase cost' },
+      { ingredientId: 'onion', name: 'onion', reason: 'Recipe unit pcs does not convert to cost unit kg' },
+    ]);
+  });
+
+  it('costs an empty recipe at zero', () => {
+    expect(calculateFoodCost([]).cost?.toString()).toBe('0');
+  });
+});
+
+describe('marginOf', () => {
+  it('gives the margin as an amount and a share of the price', () => {
+    const { margin, marginRate } = marginOf(decimal('8.50'), decimal('2.22'));
+    expect(margin?.toString()).toBe('6.28');
+    expect(marginRate).toBe(0.7388);
+  });
+
+  it('has no margin without a cost', () => {
+    expect(marginOf(decimal(8), null)).toEqual({ margin: null, marginRate: null });
+  });
+
+  it('has no rate for free products', () => {
+    expect(marginOf(decimal(0), decimal(1)).marginRate).toBeNull();
+  });
+});
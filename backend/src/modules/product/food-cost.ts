@@ -0,0 +1,193 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../config/index.js';
+import { NotFoundError, hasPermission } from '../../shared/middleware/index.js';
+import { convertQuantity, isUnit } from '../../shared/utils/index.js';
+import { applyProductPrices, applyMenuItemPrices } from './pricing.js';
+import type { AuthenticatedUser } from '../../shared/types/index.js';
+
+type Decimal = Prisma.Decimal;
+
+// Share of the selling price left after food cost when an organization sets none
+export const DEFAULT_TARGET_MARGIN = 0.7;
+
+interface CostedIngredient {
+  id: string;
+  name: string;
+  costPerUnit: Decimal | null;
+  costUnit: string | null;
+}
+
+interface RecipeLine {
+  isOptional: boolean;
+  quantity: Decimal | null;
+  unit: string | null;
+  ingredient: CostedIngredient;
+}
+
+export interface FoodCost {
+  // null until every required recipe line can be costed
+  cost: Decimal | null;
+  lines: Array<{ ingredientId: string; name: string; quantity: Decimal; unit: string; cost: Decimal }>;
+  missing: Array<{ ingredientId: string; name: string; reason: string }>;
+}
+
+function costLine({ quantity, unit, ingredient }: RecipeLine): { cost: Decimal } | { reason: string } {
+  if (quantity === null || !unit) return { reason: 'No quantity on the recipe line' };
+  if (ingredient.costPerUnit === null || !ingredient.costUnit) return { reason: 'No purchase cost' };
+  if (!isUnit(unit) || !isUnit(ingredient.costUnit)) return { reason: 'Unknown unit' };
+
+  const used = convertQuantity(quantity, unit, ingredient.costUnit);
+  if (!used) {
+    return { reason: `Recipe unit ${unit} does not convert to cost unit ${ingredient.costUnit}` };
+  }
+
+  return { cost: used.mul(ingredient.costPerUnit) };
+}
+
+// Cost of one portion from its required ingredients; optional extras are not included
+export function calculateFoodCost(recipe: RecipeLine[]): FoodCost {
+  const result: FoodCost = { cost: null, lines: [], missing: [] };
+  let total = new Prisma.Decimal(0);
+
+  for (const line of recipe.filter(({ isOptional }) => !isOptional)) {
+    const { ingredient } = line;
+    const costed = costLine(line);
+
+    if ('reason' in costed) {
+      result.missing.push({ ingredientId: ingredient.id, name: ingredient.name, reason: costed.reason });
+      continue;
+    }
+
+    const { cost } = costed;
+    total = total.add(cost);
+    result.lines.push({
+      ingredientId: ingredient.id,
+      name: ingredient.name,
+      quantity: line.quantity!,
+      unit: line.unit!,
+      cost: cost.toDecimalPlaces(4),
+    });
+  }
+
+  if (result.missing.length === 0) result.cost = total.toDecimalPlaces(2);
+
+  return result;
+}
+
+// Margin as an amount and as a share of the selling price
+export function marginOf(price: Decimal, cost: Decimal | null) {
+  if (cost === null) return { margin: null, marginRate: null };
+
+  const margin = price.sub(cost);
+  return {
+    margin,
+    marginRate: price.isZero() ? null : margin.div(price).toDecimalPlaces(4).toNumber(),
+  };
+}
+
+const recipeInclude = {
+  ingredients: {
+    select: {
+      isOptional: true,
+      quantity: true,
+      unit: true,
+      ingredient: { select: { id: true, name: true, costPerUnit: true, costUnit: true } },
+    },
+  },
+};
+
+// Food cost of a product with the margin at its own price and at the price on every menu
+// the user manages; other organizations' menu prices stay hidden
+export async function getProductFoodCost(productId: string, user: AuthenticatedUser, at = new Date()) {
+  const product = await prisma.product.findUnique({
+    where: { id: productId },
+    include: {
+      ...recipeInclude,
+      menuItems: { include: { product: true, menu: { select: { id: true, name: true, organizationId: true } } } },
+    },
+  });
+
+  if (!product) throw new NotFoundError('Product');
+
+  const managed = product.menuItems.filter(({ menu }) =>
+    hasPermission(user, { permission: 'menu.manage' }, { organizationId: menu.organizationId })
+  );
+  const [[priced], menuItems] = await Promise.all([
+    applyProductPrices([product], at),
+    applyMenuItemPrices(managed, at),
+  ]);
+  const foodCost = calculateFoodCost(product.ingredients);
+
+  return {
+    productId: product.id,
+    name: product.name,
+    ...foodCost,
+    price: priced.price,
+    ...marginOf(priced.price, foodCost.cost),
+    menuItems: menuItems.map((item) => ({
+      menuItemId: item.id,
+      menu: item.menu,
+      price: item.price,
+      ...marginOf(item.price, foodCost.cost),
+    })),
+  };
+}
+
+function targetMarginOf(settings: Prisma.JsonValue): number {
+  const value =
+    settings && typeof settings === 'object' && !Array.isArray(settings) ? settings.targetMargin : undefined;
+  return typeof value === 'number' && value >= 0 && value < 1 ? value : DEFAULT_TARGET_MARGIN;
+}
+
+// Menu items of an organization's active menus whose margin is below the target (from the
+// organization's `targetMargin` setting unless given), plus items that cannot be costed yet
+export async function buildMarginReport(organizationId: string, targetMargin?: number, at = new Date()) {
+  const organization = await prisma.organization.findUnique({ where: { id: organizationId } });
+  if (!organization) throw new NotFoundError('Organization');
+
+  const target = targetMargin ?? targetMarginOf(organization.settings);
+
+  const items = await prisma.menuItem.findMany({
+    where: { menu: { organizationId, isActive: true }, product: { archivedAt: null } },
+    include: {
+      product: { include: recipeInclude },
+      menu: { select: { id: true, name: true } },
+    },
+    orderBy: [{ menuId: 'asc' }, { displayOrder: 'asc' }],
+  });
+
+  const priced = await applyMenuItemPrices(items, at);
+  const belowTarget = [];
+  const incomplete = [];
+
+  for (const item of priced) {
+    const { cost, missing } = calculateFoodCost(item.product.ingredients);
+    const entry = {
+      menuItemId: item.id,
+      menu: item.menu,
+      productId: item.productId,
+      name: item.product.name,
+      price: item.price,
+      foodCost: cost,
+    };
+
+    if (cost === null) {
+      incomplete.push({ ...entry, missing });
+      continue;
+    }
+
+    const { margin, marginRate } = marginOf(item.price, cost);
+    if (marginRate === null || marginRate < target) {
+      belowTarget.push({ ...entry, margin, marginRate });
+    }
+  }
+
+  return {
+    organizationId,
+    targetMargin: target,
+    at,
+    checked: priced.length,
+    belowTarget: belowTarget.sort((a, b) => (a.marginRate ?? -Infinity) - (b.marginRate ?? -Infinity)),
+    incomplete,
+  };
+}
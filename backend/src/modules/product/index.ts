@@ -1,10 +1,53 @@
-import { Router } from 'express';
+import { Router, raw } from 'express';
 import type { Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { prisma } from '../../config/index.js';
-import { authenticate, requirePermission, NotFoundError } from '../../shared/middleware/index.js';
-import { createAuditLog, AuditActions } from '../../shared/utils/index.js';
-import type { AuthenticatedRequest, ApiResponse } from '../../shared/types/index.js';
+import {
+  authenticate,
+  optionalAuthenticate,
+  requirePermission,
+  ScopeResolvers,
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+} from '../../shared/middleware/index.js';
+import { createAuditLog, AuditActions, diffFields, requestLanguages, UNITS } from '../../shared/utils/index.js';
+import type { AuthenticatedRequest, ApiResponse, ScopeResolver } from '../../shared/types/index.js';
+import { parseMenuRules } from './menu-rules.js';
+import {
+  buildAllergenMatrix,
+  renderAllergenHtml,
+  renderAllergenPdf,
+  DECLARATION_LANGUAGES,
+} from './allergens.js';
+import { dietaryRestrictionsFor, annotateProduct, personalize } from './dietary.js';
+import { DIET_FLAGS, resolveDietFlags, buildDietConsistencyReport } from './diet-flags.js';
+import {
+  updateProduct,
+  archiveProduct,
+  restoreProduct,
+  addIngredient,
+  updateIngredientLine,
+  removeIngredient,
+  reconcileIngredientProducts,
+} from './lifecycle.js';
+import {
+  applyProductPrices,
+  applyMenuItemPrices,
+  schedulePriceChange,
+  cancelPriceChange,
+  getPriceHistory,
+} from './pricing.js';
+import {
+  localize,
+  localizeProduct,
+  setTranslation,
+  findMissingTranslations,
+  translationSchema,
+  translationLanguageSchema,
+} from './translations.js';
+import { importPriceList, exportPriceList } from './price-list.js';
+import { getProductFoodCost, buildMarginReport } from './food-cost.js';
 
 // Schemas
 const createProductSchema = z.object({
@@ -12,13 +55,59 @@ const createProductSchema = z.object({
   description: z.string().optional(),
   price: z.number().positive(),
   imageUrl: z.string().url().optional(),
-  isVegan: z.boolean().default(false),
-  isVegetarian: z.boolean().default(false),
-  isGlutenFree: z.boolean().default(false),
+  // Derived from the ingredients when omitted
+  isVegan: z.boolean().optional(),
+  isVegetarian: z.boolean().optional(),
+  isGlutenFree: z.boolean().optional(),
   ingredientIds: z.array(z.string()).optional(),
 });
 
-const createIngredientSchema = z.object({
+const updateProductSchema = z
+  .object({
+    name: z.string().min(1).max(200),
+    description: z.string().nullable(),
+    price: z.number().positive(),
+    imageUrl: z.string().url().nullable(),
+    isActive: z.boolean(),
+    isVegan: z.boolean(),
+    isVegetarian: z.boolean(),
+    isGlutenFree: z.boolean(),
+    metadata: z.record(z.unknown()),
+  })
+  .partial();
+
+// Amount of an ingredient per portion
+const recipeQuantitySchema = z.object({
+  quantity: z.number().positive().max(100_000).nullable().optional(),
+  unit: z.enum(UNITS).nullable().optional(),
+});
+
+const addProductIngredientSchema = recipeQuantitySchema.extend({
+  ingredientId: z.string(),
+  isOptional: z.boolean().default(false),
+  notes: z.string().max(200).optional(),
+});
+
+const updateProductIngredientSchema = recipeQuantitySchema.extend({
+  isOptional: z.boolean().optional(),
+  notes: z.string().max(200).nullable().optional(),
+});
+
+const ingredientDietSchema = z.object({
+  isVegan: z.boolean().nullable().optional(),
+  isVegetarian: z.boolean().nullable().optional(),
+  isGlutenFree: z.boolean().nullable().optional(),
+});
+
+// Net purchase cost per unit, e.g. 12.5 per kg
+const ingredientCostSchema = z.object({
+  costPerUnit: z.number().min(0).max(100_000).nullable().optional(),
+  costUnit: z.enum(UNITS).nullable().optional(),
+});
+
+const updateIngredientSchema = ingredientDietSchema.merge(ingredientCostSchema);
+
+const createIngredientSchema = updateIngredientSchema.extend({
   name: z.string().min(1).max(100),
   description: z.string().optional(),
   isAllergen: z.boolean().default(false),
@@ -41,6 +130,58 @@ const addMenuItemSchema = z.object({
   priceOverride: z.number().positive().optional(),
 });
 
+const schedulePriceSchema = z.object({
+  price: z.number().positive(),
+  effectiveFrom: z.string().datetime().optional(), // now when omitted
+  note: z.string().max(200).optional(),
+});
+
+const scheduleOverrideSchema = schedulePriceSchema.extend({
+  price: z.number().positive().nullable(), // null removes the override
+});
+
+const priceQuerySchema = z.object({
+  at: z.string().datetime({ offset: true }).optional(),
+});
+
+const missingTranslationsQuerySchema = z.object({
+  lang: translationLanguageSchema.optional(),
+});
+
+const importQuerySchema = z.object({
+  dryRun: z.enum(['true', 'false']).default('false'),
+});
+
+const exportQuerySchema = z.object({
+  format: z.enum(['csv', 'xlsx']).default('xlsx'),
+});
+
+const marginReportQuerySchema = z.object({
+  targetMargin: z.coerce.number().min(0).lt(1).optional(),
+});
+
+const allergenQuerySchema = z.object({
+  format: z.enum(['json', 'html', 'pdf']).default('json'),
+  lang: z.enum(DECLARATION_LANGUAGES).default('de'),
+});
+
+// Organization owning the menu in a route parameter; global menus have none
+const menuFromParam = (param: string): ScopeResolver => async (req) => {
+  const menu = await prisma.menu.findUnique({
+    where: { id: String(req.params[param]) },
+    select: { organizationId: true },
+  });
+
+  if (!menu) throw new NotFoundError('Menu');
+
+  return { organizationId: menu.organizationId };
+};
+
+const orgFromBody = ScopeResolvers.organizationBody();
+const catalogue = ScopeResolvers.global();
+const menuFromIdParam = menuFromParam('id');
+const menuFromMenuIdParam = menuFromParam('menuId');
+
 const router = Router();
 
 // ===== PRODUCTS =====
@@ -48,9 +189,10 @@ const router = Router();
 // GET /products
 router.get(
   '/',
+  optionalAuthenticate,
   async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
     try {
-      const { isVegan, isVegetarian, isGlutenFree, isActive } = req.query;
+      const { isVegan, isVegetarian, isGlutenFree, isActive, includeArchived, hideUnsafe } = req.query;
 
       const products = await prisma.product.findMany({
         where: {
@@ -58,6 +200,7 @@ router.get(
           ...(isVegetarian !== undefined && { isVegetarian: isVegetarian === 'true' }),
           ...(isGlutenFree !== undefined && { isGlutenFree: isGlutenFree === 'true' }),
           ...(isActive !== undefined && { isActive: isActive === 'true' }),
+          ...(includeArchived !== 'true' && { archivedAt: null }),
         },
         include: {
           ingredients: {
@@ -70,8 +213,62 @@ router.get(
         },
         take: 100,
       });
+      const languages = await requestLanguages(req);
+      const priced = (await applyProductPrices(products)).map((product) =>
+        localizeProduct(product, languages)
+      );
+      res.setHeader('Content-Language', languages[0]);
+
+      const restrictions = await dietaryRestrictionsFor(req);
+      if (restrictions) {
+        res.json({
+          success: true,
+          data: personalize(priced, (product) => product, restrictions, hideUnsafe === 'true'),
+        });
+        return;
+      }
+
+      res.json({ success: true, data: priced });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /products/export
+router.get(
+  '/export',
+  authenticate,
+  requirePermission({ permission: 'product.update', resolve: catalogue }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { format } = exportQuerySchema.parse(req.query);
+      const file = await exportPriceList(format);
+
+      res.attachment(`products-${new Date().toISOString().slice(0, 10)}.${format}`).send(file);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /products/import
+router.post(
+  '/import',
+  authenticate,
+  requirePermission({ permission: 'product.create', resolve: catalogue }),
+  requirePermission({ permission: 'product.update', resolve: catalogue }),
+  raw({ type: '*/*', limit: '5mb' }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const { dryRun } = importQuerySchema.parse(req.query);
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        throw new ValidationError('Send the price list as a CSV or XLSX request body');
+      }
+
+      const report = await importPriceList(req.body, { dryRun: dryRun === 'true' }, req.user!.id, req);
 
-      res.json({ success: true, data: products });
+      res.json({ success: true, data: report });
     } catch (error) {
       next(error);
     }
@@ -81,10 +278,11 @@ router.get(
 // GET /products/:id
 router.get(
   '/:id',
+  optionalAuthenticate,
   async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
     try {
       const product = await prisma.product.findUnique({
-        where: { id: req.params.id },
+        where: { id: String(req.params.id) },
         include: {
           ingredients: {
             include: {
@@ -95,8 +293,19 @@ router.get(
       });
 
       if (!product) throw new NotFoundError('Product');
+      const languages = await requestLanguages(req);
+      const [priced] = (await applyProductPrices([product])).map((entry) =>
+        localizeProduct(entry, languages)
+      );
+      res.setHeader('Content-Language', languages[0]);
 
-      res.json({ success: true, data: product });
+      const restrictions = await dietaryRestrictionsFor(req);
+      if (restrictions) {
+        res.json({ success: true, data: { ...priced, dietary: annotateProduct(priced, restrictions) } });
+        return;
+      }
+
+      res.json({ success: true, data: priced });
     } catch (error) {
       next(error);
     }
@@ -107,16 +316,24 @@ router.get(
 router.post(
   '/',
   authenticate,
-  requirePermission({ permission: 'product.create' }),
+  requirePermission({ permission: 'product.create', resolve: catalogue }),
   async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
     try {
       const input = createProductSchema.parse(req.body);
-      const { ingredientIds, ...productData } = input;
+      const { ingredientIds, isVegan, isVegetarian, isGlutenFree, ...productData } = input;
+      const dietFlags = await resolveDietFlags(
+        { isVegan, isVegetarian, isGlutenFree },
+        ingredientIds ?? []
+      );
 
       const product = await prisma.product.create({
         data: {
           ...productData,
+          ...dietFlags,
           price: productData.price,
+          priceChanges: {
+            create: { price: productData.price, effectiveFrom: new Date(), createdBy: req.user!.id },
+          },
           ...(ingredientIds && {
             ingredients: {
               create: ingredientIds.map((id) => ({ ingredientId: id })),
@@ -143,6 +360,258 @@ router.post(
   }
 );
 
+// PATCH /products/:id
+router.patch(
+  '/:id',
+  authenticate,
+  requirePermission({ permission: 'product.update', resolve: catalogue }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = updateProductSchema.parse(req.body);
+      const product = await updateProduct(String(req.params.id), input, req.user!.id, req);
+
+      res.json({ success: true, data: product });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /products/:id/archive
+router.post(
+  '/:id/archive',
+  authenticate,
+  requirePermission({ permission: 'product.update', resolve: catalogue }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const product = await archiveProduct(String(req.params.id), req.user!.id, req);
+
+      res.json({ success: true, data: product });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /products/:id/restore
+router.post(
+  '/:id/restore',
+  authenticate,
+  requirePermission({ permission: 'product.update', resolve: catalogue }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const product = await restoreProduct(String(req.params.id), req.user!.id, req);
+
+      res.json({ success: true, data: product });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /products/:id/ingredients
+router.post(
+  '/:id/ingredients',
+  authenticate,
+  requirePermission({ permission: 'product.update', resolve: catalogue }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = addProductIngredientSchema.parse(req.body);
+      const product = await addIngredient(String(req.params.id), input, req.user!.id, req);
+
+      res.status(201).json({ success: true, data: product });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PATCH /products/:id/ingredients/:ingredientId
+router.patch(
+  '/:id/ingredients/:ingredientId',
+  authenticate,
+  requirePermission({ permission: 'product.update', resolve: catalogue }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = updateProductIngredientSchema.parse(req.body);
+      const product = await updateIngredientLine(
+        String(req.params.id),
+        String(req.params.ingredientId),
+        input,
+        req.user!.id,
+        req
+      );
+
+      res.json({ success: true, data: product });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /products/:id/food-cost
+router.get(
+  '/:id/food-cost',
+  authenticate,
+  // Franchise staff see the cost against the menus they manage
+  requirePermission({ permission: 'product.update' }, { permission: 'menu.manage' }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const foodCost = await getProductFoodCost(String(req.params.id), req.user!);
+
+      res.json({ success: true, data: foodCost });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /products/food-cost/organizations/:organizationId
+router.get(
+  '/food-cost/organizations/:organizationId',
+  authenticate,
+  requirePermission({ permission: 'menu.manage', resolve: ScopeResolvers.organizationParam('organizationId') }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const { targetMargin } = marginReportQuerySchema.parse(req.query);
+      const report = await buildMarginReport(String(req.params.organizationId), targetMargin);
+
+      res.json({ success: true, data: report });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /products/:id/ingredients/:ingredientId
+router.delete(
+  '/:id/ingredients/:ingredientId',
+  authenticate,
+  requirePermission({ permission: 'product.update', resolve: catalogue }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const product = await removeIngredient(String(req.params.id), String(req.params.ingredientId), req.user!.id, req);
+
+      res.json({ success: true, data: product });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /products/:id/prices
+router.get(
+  '/:id/prices',
+  authenticate,
+  // The history holds every organization's menu overrides and scheduled changes
+  requirePermission({ permission: 'product.update', resolve: catalogue }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const { at } = priceQuerySchema.parse(req.query);
+      const history = await getPriceHistory(String(req.params.id), at ? new Date(at) : new Date());
+
+      res.json({ success: true, data: history });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /products/:id/prices
+router.post(
+  '/:id/prices',
+  authenticate,
+  requirePermission({ permission: 'product.update', resolve: catalogue }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = schedulePriceSchema.parse(req.body);
+
+      const change = await schedulePriceChange(
+        { productId: String(req.params.id) },
+        { ...input, effectiveFrom: input.effectiveFrom ? new Date(input.effectiveFrom) : undefined },
+        req.user!.id,
+        req
+      );
+
+      res.status(201).json({ success: true, data: change });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /products/:id/prices/:priceChangeId
+router.delete(
+  '/:id/prices/:priceChangeId',
+  authenticate,
+  requirePermission({ permission: 'product.update', resolve: catalogue }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      await cancelPriceChange(
+        { productId: String(req.params.id) },
+        String(req.params.priceChangeId),
+        req.user!.id,
+        req
+      );
+
+      res.json({ success: true, data: { message: 'Price change cancelled' } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /products/:id/translations/:lang
+router.put(
+  '/:id/translations/:lang',
+  authenticate,
+  requirePermission({ permission: 'product.update', resolve: catalogue }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const lang = translationLanguageSchema.parse(req.params.lang);
+      const input = translationSchema.parse(req.body);
+      const product = await setTranslation('product', String(req.params.id), lang, input, req.user!.id, req);
+
+      res.json({ success: true, data: product });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /products/translations/missing
+router.get(
+  '/translations/missing',
+  authenticate,
+  requirePermission({ permission: 'product.update' }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const { lang } = missingTranslationsQuerySchema.parse(req.query);
+      const report = await findMissingTranslations(lang ? [lang] : undefined);
+
+      res.json({ success: true, data: report });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /products/diet-flags/report
+router.get(
+  '/diet-flags/report',
+  authenticate,
+  requirePermission({ permission: 'product.update' }),
+  async (_req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const report = await buildDietConsistencyReport();
+
+      res.json({ success: true, data: report });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // ===== INGREDIENTS =====
 
 // GET /ingredients
@@ -166,10 +635,13 @@ router.get(
 router.post(
   '/ingredients',
   authenticate,
-  requirePermission({ permission: 'product.create' }),
+  requirePermission({ permission: 'product.create', resolve: catalogue }),
   async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
     try {
       const input = createIngredientSchema.parse(req.body);
+      if ((input.costPerUnit == null) !== (input.costUnit == null)) {
+        throw new ValidationError('Purchase cost and cost unit are set together');
+      }
       const { allergenCode, allergenName, ...ingredientData } = input;
 
       const ingredient = await prisma.ingredient.create({
@@ -187,6 +659,15 @@ router.post(
         include: { allergenInfo: true },
       });
 
+      await createAuditLog({
+        userId: req.user!.id,
+        action: AuditActions.INGREDIENT_CREATE,
+        resource: 'ingredient',
+        resourceId: ingredient.id,
+        metadata: { name: ingredient.name, ...(ingredient.allergenInfo && { allergen: ingredient.allergenInfo.code }) },
+        req,
+      });
+
       res.status(201).json({ success: true, data: ingredient });
     } catch (error) {
       next(error);
@@ -194,6 +675,74 @@ router.post(
   }
 );
 
+// PATCH /ingredients/:id
+router.patch(
+  '/ingredients/:id',
+  authenticate,
+  requirePermission({ permission: 'product.update', resolve: catalogue }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = updateIngredientSchema.parse(req.body);
+
+      const existing = await prisma.ingredient.findUnique({ where: { id: String(req.params.id) } });
+      if (!existing) throw new NotFoundError('Ingredient');
+
+      const costPerUnit = input.costPerUnit === undefined ? existing.costPerUnit : input.costPerUnit;
+      const costUnit = input.costUnit === undefined ? existing.costUnit : input.costUnit;
+      if ((costPerUnit === null) !== (costUnit === null)) {
+        throw new ValidationError('Purchase cost and cost unit are set together');
+      }
+
+      // Products declared e.g. vegan lose the flag once one of their ingredients no longer is
+      const { ingredient, reconciled } = await prisma.$transaction(async (tx) => {
+        const ingredient = await tx.ingredient.update({
+          where: { id: existing.id },
+          data: input,
+          include: { allergenInfo: true },
+        });
+        const reconciled = DIET_FLAGS.some((flag) => input[flag] !== undefined)
+          ? await reconcileIngredientProducts(tx, ingredient.id)
+          : [];
+        return { ingredient, reconciled };
+      });
+
+      await createAuditLog({
+        userId: req.user!.id,
+        action: AuditActions.INGREDIENT_UPDATE,
+        resource: 'ingredient',
+        resourceId: ingredient.id,
+        metadata: {
+          changes: diffFields(existing, ingredient, [...DIET_FLAGS, 'costPerUnit', 'costUnit']),
+          ...(reconciled.length > 0 && { clearedProductFlags: reconciled }),
+        },
+        req,
+      });
+
+      res.json({ success: true, data: ingredient });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /ingredients/:id/translations/:lang
+router.put(
+  '/ingredients/:id/translations/:lang',
+  authenticate,
+  requirePermission({ permission: 'product.update', resolve: catalogue }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const lang = translationLanguageSchema.parse(req.params.lang);
+      const input = translationSchema.parse(req.body);
+      const ingredient = await setTranslation('ingredient', String(req.params.id), lang, input, req.user!.id, req);
+
+      res.json({ success: true, data: ingredient });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // GET /allergens
 router.get(
   '/allergens/list',
@@ -216,6 +765,7 @@ router.get(
 // GET /menus
 router.get(
   '/menus/list',
+  optionalAuthenticate,
   async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
     try {
       const { organizationId, isActive } = req.query;
@@ -230,8 +780,10 @@ router.get(
           _count: { select: { items: true } },
         },
       });
+      const languages = await requestLanguages(req);
+      res.setHeader('Content-Language', languages[0]);
 
-      res.json({ success: true, data: menus });
+      res.json({ success: true, data: menus.map((menu) => localize(menu, languages)) });
     } catch (error) {
       next(error);
     }
@@ -241,13 +793,15 @@ router.get(
 // GET /menus/:id
 router.get(
   '/menus/:id',
+  optionalAuthenticate,
   async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
     try {
       const menu = await prisma.menu.findUnique({
-        where: { id: req.params.id },
+        where: { id: String(req.params.id) },
         include: {
           organization: { select: { id: true, name: true } },
           items: {
+            ...(req.query.includeArchived !== 'true' && { where: { product: { archivedAt: null } } }),
             include: {
               product: {
                 include: {
@@ -263,8 +817,52 @@ router.get(
       });
 
       if (!menu) throw new NotFoundError('Menu');
+      const languages = await requestLanguages(req);
+      const localized = localize(menu, languages);
+      const pricedItems = (await applyMenuItemPrices(menu.items)).map((item) => ({
+        ...item,
+        product: localizeProduct(item.product, languages),
+      }));
+      res.setHeader('Content-Language', languages[0]);
 
-      res.json({ success: true, data: menu });
+      const restrictions = await dietaryRestrictionsFor(req);
+      if (restrictions) {
+        const hideUnsafe = req.query.hideUnsafe === 'true';
+        const items = personalize(pricedItems, (item) => item.product, restrictions, hideUnsafe);
+        res.json({ success: true, data: { ...localized, items } });
+        return;
+      }
+
+      res.json({ success: true, data: { ...localized, items: pricedItems } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /menus/:id/allergens
+router.get(
+  '/menus/:id/allergens',
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { format, lang } = allergenQuerySchema.parse(req.query);
+      const matrix = await buildAllergenMatrix(String(req.params.id));
+
+      if (format === 'html') {
+        res.type('html').send(renderAllergenHtml(matrix, lang));
+        return;
+      }
+
+      if (format === 'pdf') {
+        const pdf = await renderAllergenPdf(matrix, lang);
+        res
+          .type('pdf')
+          .setHeader('Content-Disposition', `inline; filename="allergens-${matrix.menu.id}-${lang}.pdf"`)
+          .send(pdf);
+        return;
+      }
+
+      res.json({ success: true, data: matrix });
     } catch (error) {
       next(error);
     }
@@ -275,17 +873,21 @@ router.get(
 router.post(
   '/menus',
   authenticate,
-  requirePermission({ permission: 'menu.create' }),
+  requirePermission(
+    { permission: 'menu.create', resolve: orgFromBody },
+    { permission: 'menu.manage', resolve: orgFromBody }
+  ),
   async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
     try {
       const input = createMenuSchema.parse(req.body);
+      const rules = parseMenuRules(input.rules);
 
       const menu = await prisma.menu.create({
         data: {
           ...input,
           validFrom: input.validFrom ? new Date(input.validFrom) : undefined,
           validUntil: input.validUntil ? new Date(input.validUntil) : undefined,
-          rules: input.rules ?? {},
+          rules,
         },
       });
 
@@ -304,21 +906,59 @@ router.post(
   }
 );
 
+// PUT /menus/:id/translations/:lang
+router.put(
+  '/menus/:id/translations/:lang',
+  authenticate,
+  requirePermission(
+    { permission: 'menu.update', resolve: menuFromIdParam },
+    { permission: 'menu.manage', resolve: menuFromIdParam }
+  ),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const lang = translationLanguageSchema.parse(req.params.lang);
+      const input = translationSchema.parse(req.body);
+      const menu = await setTranslation('menu', String(req.params.id), lang, input, req.user!.id, req);
+
+      res.json({ success: true, data: menu });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // POST /menus/:id/items
 router.post(
   '/menus/:id/items',
   authenticate,
-  requirePermission({ permission: 'menu.update' }),
+  requirePermission(
+    { permission: 'menu.update', resolve: menuFromIdParam },
+    { permission: 'menu.manage', resolve: menuFromIdParam }
+  ),
   async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
     try {
       const input = addMenuItemSchema.parse(req.body);
 
+      const product = await prisma.product.findUnique({ where: { id: input.productId } });
+      if (!product) throw new NotFoundError('Product');
+      if (product.archivedAt) throw new ConflictError('Archived products cannot be added to menus');
+
       const menuItem = await prisma.menuItem.create({
         data: {
-          menuId: req.params.id,
+          menuId: String(req.params.id),
           productId: input.productId,
           displayOrder: input.displayOrder,
           priceOverride: input.priceOverride,
+          ...(input.priceOverride && {
+            priceChanges: {
+              create: {
+                product: { connect: { id: input.productId } },
+                price: input.priceOverride,
+                effectiveFrom: new Date(),
+                createdBy: req.user!.id,
+              },
+            },
+          }),
         },
         include: { product: true },
       });
@@ -334,14 +974,17 @@ router.post(
 router.delete(
   '/menus/:menuId/items/:productId',
   authenticate,
-  requirePermission({ permission: 'menu.update' }),
+  requirePermission(
+    { permission: 'menu.update', resolve: menuFromMenuIdParam },
+    { permission: 'menu.manage', resolve: menuFromMenuIdParam }
+  ),
   async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
     try {
       await prisma.menuItem.delete({
         where: {
           menuId_productId: {
-            menuId: req.params.menuId,
-            productId: req.params.productId,
+            menuId: String(req.params.menuId),
+            productId: String(req.params.productId),
           },
         },
       });
@@ -353,4 +996,80 @@ router.delete(
   }
 );
 
+// POST /menus/:menuId/items/:productId/prices
+router.post(
+  '/menus/:menuId/items/:productId/prices',
+  authenticate,
+  requirePermission(
+    { permission: 'menu.update', resolve: menuFromMenuIdParam },
+    { permission: 'menu.manage', resolve: menuFromMenuIdParam }
+  ),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = scheduleOverrideSchema.parse(req.body);
+
+      const menuItem = await prisma.menuItem.findUnique({
+        where: { menuId_productId: { menuId: String(req.params.menuId), productId: String(req.params.productId) } },
+      });
+      if (!menuItem) throw new NotFoundError('Menu item');
+
+      const change = await schedulePriceChange(
+        { productId: menuItem.productId, menuItemId: menuItem.id },
+        { ...input, effectiveFrom: input.effectiveFrom ? new Date(input.effectiveFrom) : undefined },
+        req.user!.id,
+        req
+      );
+
+      res.status(201).json({ success: true, data: change });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /menus/:menuId/items/:productId/prices/:priceChangeId
+router.delete(
+  '/menus/:menuId/items/:productId/prices/:priceChangeId',
+  authenticate,
+  requirePermission(
+    { permission: 'menu.update', resolve: menuFromMenuIdParam },
+    { permission: 'menu.manage', resolve: menuFromMenuIdParam }
+  ),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const menuItem = await prisma.menuItem.findUnique({
+        where: { menuId_productId: { menuId: String(req.params.menuId), productId: String(req.params.productId) } },
+      });
+      if (!menuItem) throw new NotFoundError('Menu item');
+
+      await cancelPriceChange(
+        { productId: menuItem.productId, menuItemId: menuItem.id },
+        String(req.params.priceChangeId),
+        req.user!.id,
+        req
+      );
+
+      res.json({ success: true, data: { message: 'Price change cancelled' } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export const productRoutes = router;
+export { menuRulesSchema, parseMenuRules, isMenuVisible, evaluateMenu } from './menu-rules.js';
+export { resolveEffectiveMenu } from './effective-menu.js';
+export type { MenuRules, MenuRuleContext } from './menu-rules.js';
+export type { EffectiveMenuAllergen } from './effective-menu.js';
+export { productAllergens } from './allergens.js';
+export { annotateProduct, loadDietaryRestrictions, dietaryRestrictionsFor } from './dietary.js';
+export type { DietaryAnnotation, DietaryRestrictionInput, DietaryStatus } from './dietary.js';
+export { deriveDietFlags, resolveDietFlags } from './diet-flags.js';
+export type { DietFlag, DietFlags } from './diet-flags.js';
+export { updateProduct, archiveProduct, restoreProduct } from './lifecycle.js';
+export { applyProductPrices, applyMenuItemPrices, schedulePriceChange } from './pricing.js';
+export { localize, localizeProduct } from './translations.js';
+export { importPriceList, exportPriceList, PRICE_LIST_COLUMNS } from './price-list.js';
+export type { ImportReport, PriceListFormat } from './price-list.js';
+export type { Translation, Translations } from './translations.js';
+export type { AllergenLevel, AllergenMatrix } from './allergens.js';
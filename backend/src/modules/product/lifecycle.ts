@@ -0,0 +1,299 @@
+import type { Prisma, Product } from '@prisma/client';
+import { prisma } from '../../config/index.js';
+import { NotFoundError, ValidationError, ConflictError } from '../../shared/middleware/index.js';
+import { createAuditLog, AuditActions, diffFields } from '../../shared/utils/index.js';
+import type { Unit } from '../../shared/utils/index.js';
+import type { AuthenticatedRequest } from '../../shared/types/index.js';
+import { DIET_FLAGS, findDietFlagConflicts, deriveDietFlags } from './diet-flags.js';
+import type { DietFlag, DietFlags } from './diet-flags.js';
+import { applyProductPrices, recordPriceChange } from './pricing.js';
+
+export interface UpdateProductInput {
+  name?: string;
+  description?: string | null;
+  price?: number;
+  imageUrl?: string | null;
+  isActive?: boolean;
+  isVegan?: boolean;
+  isVegetarian?: boolean;
+  isGlutenFree?: boolean;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AddIngredientInput {
+  ingredientId: string;
+  isOptional: boolean;
+  notes?: string;
+  quantity?: number | null;
+  unit?: Unit | null;
+}
+
+export interface UpdateIngredientLineInput {
+  isOptional?: boolean;
+  notes?: string | null;
+  quantity?: number | null;
+  unit?: Unit | null;
+}
+
+const AUDITED_FIELDS: Array<keyof Product> = [
+  'name',
+  'description',
+  'price',
+  'imageUrl',
+  'isActive',
+  'isVegan',
+  'isVegetarian',
+  'isGlutenFree',
+  'metadata',
+  'archivedAt',
+];
+
+const productInclude = {
+  ingredients: { include: { ingredient: { include: { allergenInfo: true } } } },
+};
+
+async function findProduct(productId: string, db: Prisma.TransactionClient = prisma) {
+  const product = await db.product.findUnique({
+    where: { id: productId },
+    include: productInclude,
+  });
+
+  if (!product) throw new NotFoundError('Product');
+
+  return product;
+}
+
+async function auditChange(
+  action: string,
+  before: Product,
+  after: Product,
+  userId: string,
+  req?: AuthenticatedRequest,
+  extra?: Record<string, unknown>
+) {
+  await createAuditLog({
+    userId,
+    action,
+    resource: 'product',
+    resourceId: after.id,
+    metadata: { changes: diffFields(before, after, AUDITED_FIELDS), ...extra },
+    req,
+  });
+}
+
+export async function updateProduct(
+  productId: string,
+  input: UpdateProductInput,
+  userId: string,
+  req?: AuthenticatedRequest
+) {
+  const before = await findProduct(productId);
+
+  if (before.archivedAt && input.isActive) {
+    throw new ConflictError('Archived products must be restored before they can be activated');
+  }
+
+  const flags: DietFlags = {
+    isVegan: input.isVegan ?? before.isVegan,
+    isVegetarian: input.isVegetarian ?? before.isVegetarian,
+    isGlutenFree: input.isGlutenFree ?? before.isGlutenFree,
+  };
+  const conflicts = findDietFlagConflicts(
+    flags,
+    before.ingredients.map(({ ingredient }) => ingredient)
+  );
+  if (conflicts.length > 0) {
+    throw new ValidationError('Diet flags contradict the ingredients', conflicts);
+  }
+
+  const { price, ...data } = input;
+  const [current] = await applyProductPrices([before]);
+
+  // A direct price edit is a price change taking effect now
+  const after = await prisma.$transaction(async (tx) => {
+    if (price !== undefined && !current.price.equals(price)) {
+      await recordPriceChange(tx, { productId: before.id }, price, new Date(), { createdBy: userId });
+    }
+
+    return tx.product.update({
+      where: { id: before.id },
+      data: { ...data, metadata: data.metadata as Prisma.InputJsonObject | undefined },
+      include: productInclude,
+    });
+  });
+
+  await auditChange(AuditActions.PRODUCT_UPDATE, before, after, userId, req);
+
+  return after;
+}
+
+// Archived products disappear from menus and ordering but keep their id, so order lines
+// and menu history still resolve
+export async function archiveProduct(productId: string, userId: string, req?: AuthenticatedRequest) {
+  const before = await findProduct(productId);
+
+  if (before.archivedAt) {
+    throw new ConflictError('Product is already archived');
+  }
+
+  const after = await prisma.product.update({
+    where: { id: before.id },
+    data: { archivedAt: new Date(), isActive: false },
+    include: productInclude,
+  });
+
+  await auditChange(AuditActions.PRODUCT_ARCHIVE, before, after, userId, req);
+
+  return after;
+}
+
+export async function restoreProduct(productId: string, userId: string, req?: AuthenticatedRequest) {
+  const before = await findProduct(productId);
+
+  if (!before.archivedAt) {
+    throw new ConflictError('Product is not archived');
+  }
+
+  // Restored products come back inactive so they can be checked before going on sale
+  const after = await prisma.product.update({
+    where: { id: before.id },
+    data: { archivedAt: null },
+    include: productInclude,
+  });
+
+  await auditChange(AuditActions.PRODUCT_RESTORE, before, after, userId, req);
+
+  return after;
+}
+
+function disprovedDietFlags(product: Awaited<ReturnType<typeof findProduct>>): DietFlag[] {
+  const derived = deriveDietFlags(product.ingredients.map(({ ingredient }) => ingredient));
+  return DIET_FLAGS.filter((flag) => product[flag] && derived[flag].value === false);
+}
+
+// Declared diet flags the new ingredient set disproves are cleared rather than rejected,
+// so adding e.g. cheese to a vegan dish does not need a separate flag update first.
+// Runs in the transaction that changed the recipe.
+async function reconcileDietFlags(tx: Prisma.TransactionClient, productId: string) {
+  const product = await findProduct(productId, tx);
+
+  const cleared = disprovedDietFlags(product);
+  if (cleared.length === 0) return product;
+
+  return tx.product.update({
+    where: { id: product.id },
+    data: Object.fromEntries(cleared.map((flag) => [flag, false])),
+    include: productInclude,
+  });
+}
+
+// Same for every product using an ingredient whose own classification changed; returns
+// the flags cleared per product
+export async function reconcileIngredientProducts(tx: Prisma.TransactionClient, ingredientId: string) {
+  const links = await tx.productIngredient.findMany({ where: { ingredientId }, select: { productId: true } });
+  const reconciled: Array<{ productId: string; cleared: DietFlag[] }> = [];
+
+  for (const { productId } of links) {
+    const product = await findProduct(productId, tx);
+    const cleared = disprovedDietFlags(product);
+    if (cleared.length === 0) continue;
+
+    await tx.product.update({
+      where: { id: product.id },
+      data: Object.fromEntries(cleared.map((flag) => [flag, false])),
+    });
+    reconciled.push({ productId: product.id, cleared });
+  }
+
+  return reconciled;
+}
+
+export async function addIngredient(
+  productId: string,
+  input: AddIngredientInput,
+  userId: string,
+  req?: AuthenticatedRequest
+) {
+  const before = await findProduct(productId);
+
+  const ingredient = await prisma.ingredient.findUnique({ where: { id: input.ingredientId } });
+  if (!ingredient) throw new NotFoundError('Ingredient');
+
+  if (before.ingredients.some((link) => link.ingredientId === ingredient.id)) {
+    throw new ConflictError('Ingredient is already linked to this product');
+  }
+  assertQuantityWithUnit(input.quantity ?? null, input.unit ?? null);
+
+  const after = await prisma.$transaction(async (tx) => {
+    await tx.productIngredient.create({
+      data: { productId: before.id, ...input },
+    });
+
+    return reconcileDietFlags(tx, before.id);
+  });
+
+  await auditChange(AuditActions.PRODUCT_INGREDIENT_ADD, before, after, userId, req, {
+    ingredient: { id: ingredient.id, name: ingredient.name, isOptional: input.isOptional },
+  });
+
+  return after;
+}
+
+function assertQuantityWithUnit(quantity: unknown, unit: unknown) {
+  if ((quantity === null) !== (unit === null)) {
+    throw new ValidationError('Recipe quantity and unit are set together');
+  }
+}
+
+// Changes a recipe line, e.g. the amount used per portion
+export async function updateIngredientLine(
+  productId: string,
+  ingredientId: string,
+  input: UpdateIngredientLineInput,
+  userId: string,
+  req?: AuthenticatedRequest
+) {
+  const before = await findProduct(productId);
+
+  const link = before.ingredients.find((entry) => entry.ingredientId === ingredientId);
+  if (!link) throw new NotFoundError('Product ingredient');
+
+  const quantity = input.quantity === undefined ? link.quantity : input.quantity;
+  const unit = input.unit === undefined ? link.unit : input.unit;
+  assertQuantityWithUnit(quantity, unit);
+
+  const { ingredient, ...line } = link;
+  const [updated, after] = await prisma.$transaction(async (tx) => {
+    const updated = await tx.productIngredient.update({ where: { id: link.id }, data: input });
+    return [updated, await reconcileDietFlags(tx, before.id)] as const;
+  });
+
+  await auditChange(AuditActions.PRODUCT_INGREDIENT_UPDATE, before, after, userId, req, {
+    ingredient: { id: ingredient.id, name: ingredient.name },
+    line: diffFields(line, updated, ['isOptional', 'notes', 'quantity', 'unit']),
+  });
+
+  return after;
+}
+
+export async function removeIngredient(
+  productId: string,
+  ingredientId: string,
+  userId: string,
+  req?: AuthenticatedRequest
+) {
+  const before = await findProduct(productId);
+
+  const link = before.ingredients.find((entry) => entry.ingredientId === ingredientId);
+  if (!link) throw new NotFoundError('Product ingredient');
+
+  await prisma.productIngredient.delete({ where: { id: link.id } });
+
+  const after = await findProduct(before.id);
+
+  await auditChange(AuditActions.PRODUCT_INGREDIENT_REMOVE, before, after, userId, req, {
+    ingredient: { id: link.ingredient.id, name: link.ingredient.name },
+  });
+
+  return after;
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { SalesInstanceType } from '@prisma/client';
+import { ValidationError } from '../../shared/middleware/index.js';
+import { parseMenuRules, isMenuVisible, evaluateMenu } from './menu-rules.js';
+
+// Monday, 12:00 in Berlin
+const monday = new Date('2026-10-19T10:00:00Z');
+
+function item(productId: string, displayOrder: number, isAvailable = true) {
+  return { id: `item-${productId}`, productId, displayOrder, isAvailable };
+}
+
+function menu(rules: unknown, items = [item('a', 1), item('b', 2), item('c', 3)]) {
+  return { isActive: true, validFrom: null, validUntil: null, rules, items };
+}
+
+const productIds = (items: Array<{ productId: string }>) => items.map(({ productId }) => productId);
+
+describe('parseMenuRules', () => {
+  it('accepts an empty rule set', () => {
+    expect(parseMenuRules(undefined)).toEqual({});
+  });
+
+  it('reports each problem with its path', () => {
+    try {
+      parseMenuRules({ weekdays: [7], timeWindows: [{ from: '11:30', until: '25:00' }] });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      const paths = ((error as ValidationError).details as Array<{ path: string }>).map(({ path }) => path);
+      expect(paths).toContain('rules.weekdays.0');
+      expect(paths).toContain('rules.timeWindows.0.until');
+    }
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(() => parseMenuRules({ dateRanges: [{ from: '2026-02-01', until: '2026-02-30' }] })).toThrow(
+      ValidationError
+    );
+  });
+
+  it('rejects unknown keys', () => {
+    expect(() => parseMenuRules({ weekday: [1] })).toThrow(ValidationError);
+  });
+});
+
+describe('isMenuVisible', () => {
+  it('hides inactive menus and menus outside their validity', () => {
+    expect(isMenuVisible({ ...menu({}), isActive: false }, { at: monday })).toBe(false);
+    expect(isMenuVisible({ ...menu({}), validFrom: new Date('2026-10-20T00:00:00Z') }, { at: monday })).toBe(false);
+    expect(isMenuVisible({ ...menu({}), validUntil: new Date('2026-10-18T00:00:00Z') }, { at: monday })).toBe(false);
+  });
+
+  it('checks weekdays and time windows in the menu time zone', () => {
+    expect(isMenuVisible(menu({ weekdays: [1], timeWindows: [{ from: '11:30', until: '14:30' }] }), { at: monday })).toBe(
+      true
+    );
+    expect(isMenuVisible(menu({ weekdays: [0, 6] }), { at: monday })).toBe(false);
+    // 12:00 in Berlin is 06:00 in New York
+    expect(
+      isMenuVisible(menu({ timezone: 'America/New_York', timeWindows: [{ from: '11:30', until: '14:30' }] }), {
+        at: monday,
+      })
+    ).toBe(false);
+  });
+
+  it('uses the sales instance time zone when the menu sets none', () => {
+    const lunch = menu({ timeWindows: [{ from: '11:30', until: '14:30' }] });
+    expect(isMenuVisible(lunch, { at: monday, timezone: 'Europe/Madrid' })).toBe(true);
+    expect(isMenuVisible(lunch, { at: monday, timezone: 'Asia/Tokyo' })).toBe(false);
+  });
+
+  it('matches date ranges inclusively', () => {
+    expect(isMenuVisible(menu({ dateRanges: [{ from: '2026-10-01', until: '2026-10-19' }] }), { at: monday })).toBe(true);
+    expect(isMenuVisible(menu({ dateRanges: [{ from: '2026-10-20', until: '2026-10-31' }] }), { at: monday })).toBe(false);
+  });
+
+  it('restricts menus to sales instance types', () => {
+    const festival = menu({ salesInstanceTypes: [SalesInstanceType.FESTIVAL_STAND] });
+    expect(isMenuVisible(festival, { at: monday, salesInstanceType: SalesInstanceType.FESTIVAL_STAND })).toBe(true);
+    expect(isMenuVisible(festival, { at: monday, salesInstanceType: SalesInstanceType.FOODTRUCK })).toBe(false);
+    expect(isMenuVisible(festival, { at: monday })).toBe(false);
+  });
+
+  it('hides menus whose stored rules cannot be read', () => {
+    expect(isMenuVisible(menu({ weekdays: 'monday' }), { at: monday })).toBe(false);
+  });
+});
+
+describe('evaluateMenu', () => {
+  it('returns available items in display order', () => {
+    const items = [item('c', 3), item('a', 1), item('b', 2, false)];
+    expect(productIds(evaluateMenu(menu({}, items), { at: monday }))).toEqual(['a', 'c']);
+  });
+
+  it('returns nothing when the menu itself is hidden', () => {
+    expect(evaluateMenu(menu({ weekdays: [0] }), { at: monday })).toEqual([]);
+  });
+
+  it('applies item rules only to the listed products', () => {
+    const rules = { items: [{ productIds: ['b'], timeWindows: [{ from: '17:00', until: '02:00' }] }] };
+    expect(productIds(evaluateMenu(menu(rules), { at: monday }))).toEqual(['a', 'c']);
+
+    const lateNight = new Date('2026-10-19T22:00:00Z'); // 00:00 in Berlin
+    expect(productIds(evaluateMenu(menu(rules), { at: lateNight }))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('hides tracked products that are out of stock when stock is required', () => {
+    const stock = new Map([
+      ['a', 0],
+      ['b', 4],
+    ]);
+    const context = { at: monday, stockLevel: (productId: string) => stock.get(productId) };
+
+    expect(productIds(evaluateMenu(menu({ requireStock: true }), context))).toEqual(['b', 'c']);
+    expect(productIds(evaluateMenu(menu({}), context))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('lets item rules override the menu stock requirement', () => {
+    const rules = { requireStock: true, items: [{ productIds: ['a'], requireStock: false }] };
+    const context = { at: monday, stockLevel: () => 0 };
+
+    expect(productIds(evaluateMenu(menu(rules), context))).toEqual(['a']);
+  });
+
+  it('caps the number of items after filtering', () => {
+    const items = [item('a', 1, false), item('b', 2), item('c', 3), item('d', 4)];
+    expect(productIds(evaluateMenu(menu({ maxItems: 2 }, items), { at: monday }))).toEqual(['b', 'c']);
+  });
+});
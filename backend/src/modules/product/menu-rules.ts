@@ -0,0 +1,197 @@
+import { z } from 'zod';
+import { SalesInstanceType } from '@prisma/client';
+import { ValidationError } from '../../shared/middleware/index.js';
+import {
+  DEFAULT_TIMEZONE,
+  isValidTimeZone,
+  toZonedTime,
+  isTimeOfDay,
+  isCalendarDate,
+  parseTimeOfDay,
+  isWithinTimeWindow,
+} from '../../shared/utils/index.js';
+
+// ===== RULE LANGUAGE =====
+//
+// Menu.rules holds conditions for the whole menu plus optional item groups that
+// narrow down individual products. Omitted conditions always match.
+//
+// {
+//   "timezone": "Europe/Berlin",
+//   "weekdays": [1, 2, 3, 4, 5],
+//   "timeWindows": [{ "from": "11:30", "until": "14:30" }],
+//   "dateRanges": [{ "from": "2025-06-01", "until": "2025-08-31" }],
+//   "salesInstanceTypes": ["FOODTRUCK", "FESTIVAL_STAND"],
+//   "maxItems": 12,
+//   "requireStock": true,
+//   "items": [{ "productIds": ["..."], "timeWindows": [{ "from": "17:00", "until": "02:00" }] }]
+// }
+
+const timeOfDaySchema = z.string().refine(isTimeOfDay, 'Expected a time of day as HH:MM');
+
+const isoDateSchema = z.string().refine(isCalendarDate, 'Expected a calendar date as YYYY-MM-DD');
+
+const timeWindowSchema = z
+  .object({ from: timeOfDaySchema, until: timeOfDaySchema })
+  .strict()
+  .refine((window) => window.from !== window.until, 'Time window must not be empty');
+
+const dateRangeSchema = z
+  .object({ from: isoDateSchema, until: isoDateSchema })
+  .strict()
+  .refine((range) => range.from <= range.until, 'Date range must not end before it starts');
+
+const conditionShape = {
+  timeWindows: z.array(timeWindowSchema).min(1).optional(),
+  weekdays: z.array(z.number().int().min(0).max(6)).min(1).optional(),
+  dateRanges: z.array(dateRangeSchema).min(1).optional(),
+  salesInstanceTypes: z.array(z.nativeEnum(SalesInstanceType)).min(1).optional(),
+};
+
+const itemRuleSchema = z
+  .object({
+    productIds: z.array(z.string().min(1)).min(1),
+    ...conditionShape,
+    requireStock: z.boolean().optional(),
+  })
+  .strict();
+
+export const menuRulesSchema = z
+  .object({
+    timezone: z.string().refine(isValidTimeZone, 'Unknown time zone').optional(),
+    ...conditionShape,
+    maxItems: z.number().int().positive().optional(),
+    requireStock: z.boolean().optional(),
+    items: z.array(itemRuleSchema).optional(),
+  })
+  .strict();
+
+export type MenuRules = z.infer<typeof menuRulesSchema>;
+type MenuConditions = Pick<MenuRules, keyof typeof conditionShape>;
+
+// Validates a rules payload, reporting each problem with its JSON path
+export function parseMenuRules(value: unknown): MenuRules {
+  const result = menuRulesSchema.safeParse(value ?? {});
+
+  if (!result.success) {
+    throw new ValidationError(
+      'Invalid menu rules',
+      result.error.issues.map((issue) => ({
+        path: ['rules', ...issue.path].join('.'),
+        message: issue.message,
+      }))
+    );
+  }
+
+  return result.data;
+}
+
+// ===== EVALUATION =====
+
+export interface MenuRuleContext {
+  at: Date;
+  salesInstanceType?: SalesInstanceType;
+  timezone?: string;
+  // Units in stock for a product; undefined when the stand does not track it
+  stockLevel?: (productId: string) => number | undefined;
+}
+
+interface EvaluableMenuItem {
+  productId: string;
+  isAvailable: boolean;
+  displayOrder: number;
+}
+
+interface EvaluableMenu<T extends EvaluableMenuItem> {
+  isActive: boolean;
+  validFrom: Date | null;
+  validUntil: Date | null;
+  rules: unknown;
+  items: T[];
+}
+
+function matchesConditions(
+  conditions: MenuConditions,
+  context: MenuRuleContext,
+  timezone: string
+): boolean {
+  const local = toZonedTime(context.at, timezone);
+
+  if (conditions.weekdays && !conditions.weekdays.includes(local.weekday)) {
+    return false;
+  }
+
+  if (
+    conditions.dateRanges &&
+    !conditions.dateRanges.some((range) => local.date >= range.from && local.date <= range.until)
+  ) {
+    return false;
+  }
+
+  if (
+    conditions.timeWindows &&
+    !conditions.timeWindows.some((window) =>
+      isWithinTimeWindow(local.minutes, parseTimeOfDay(window.from), parseTimeOfDay(window.until))
+    )
+  ) {
+    return false;
+  }
+
+  if (conditions.salesInstanceTypes) {
+    if (!context.salesInstanceType) return false;
+    if (!conditions.salesInstanceTypes.includes(context.salesInstanceType)) return false;
+  }
+
+  return true;
+}
+
+function inStock(productId: string, context: MenuRuleContext): boolean {
+  const level = context.stockLevel?.(productId);
+  return level === undefined || level > 0;
+}
+
+// Menu-level checks: active flag, validity window and the menu's own conditions
+export function isMenuVisible(
+  menu: Omit<EvaluableMenu<EvaluableMenuItem>, 'items'>,
+  context: MenuRuleContext
+): boolean {
+  if (!menu.isActive) return false;
+  if (menu.validFrom && menu.validFrom > context.at) return false;
+  if (menu.validUntil && menu.validUntil < context.at) return false;
+
+  // Rules are validated on write; anything unreadable hides the menu rather than showing it unfiltered
+  const parsed = menuRulesSchema.safeParse(menu.rules ?? {});
+  if (!parsed.success) return false;
+
+  const timezone = parsed.data.timezone ?? context.timezone ?? DEFAULT_TIMEZONE;
+  return matchesConditions(parsed.data, context, timezone);
+}
+
+// Returns the items of a menu that are visible at context.at, in display order
+export function evaluateMenu<T extends EvaluableMenuItem>(
+  menu: EvaluableMenu<T>,
+  context: MenuRuleContext
+): T[] {
+  if (!isMenuVisible(menu, context)) return [];
+
+  const rules = menuRulesSchema.parse(menu.rules ?? {});
+  const timezone = rules.timezone ?? context.timezone ?? DEFAULT_TIMEZONE;
+
+  const visible = [...menu.items]
+    .sort((a, b) => a.displayOrder - b.displayOrder)
+    .filter((item) => {
+      if (!item.isAvailable) return false;
+
+      const itemRules = rules.items?.filter((rule) => rule.productIds.includes(item.productId)) ?? [];
+      const requireStock = itemRules.reduce<boolean | undefined>(
+        (required, rule) => rule.requireStock ?? required,
+        rules.requireStock
+      );
+
+      if (requireStock && !inStock(item.productId, context)) return false;
+
+      return itemRules.every((rule) => matchesConditions(rule, context, timezone));
+    });
+
+  return rules.maxItems ? visible.slice(0, rules.maxItems) : visible;
+}
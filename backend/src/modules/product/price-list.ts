@@ -0,0 +1,592 @@
+import ExcelJS from 'exceljs';
+import { prisma } from '../../config/index.js';
+import { ValidationError } from '../../shared/middleware/index.js';
+import {
+  createAuditLog,
+  AuditActions,
+  diffFields,
+  decodeText,
+  parseCsv,
+  toCsv,
+  escapeFormula,
+  unescapeFormula,
+  fromZonedTime,
+  DEFAULT_TIMEZONE,
+} from '../../shared/utils/index.js';
+import type { FieldChanges } from '../../shared/utils/index.js';
+import type { AuthenticatedRequest } from '../../shared/types/index.js';
+import { DIET_FLAGS, deriveDietFlags, findDietFlagConflicts } from './diet-flags.js';
+import type { DietFlag, DietFlags } from './diet-flags.js';
+import { productAllergens } from './allergens.js';
+import { applyProductPrices, recordPriceChange } from './pricing.js';
+
+export type PriceListFormat = 'csv' | 'xlsx';
+
+// Column order of exports; imports match headers case-insensitively in any order
+export const PRICE_LIST_COLUMNS = [
+  'id',
+  'name',
+  'description',
+  'price',
+  'effective_from',
+  'vegan',
+  'vegetarian',
+  'gluten_free',
+  'ingredients',
+  'allergens',
+  'active',
+] as const;
+type Column = (typeof PRICE_LIST_COLUMNS)[number];
+
+const REQUIRED_COLUMNS: Column[] = ['name', 'price'];
+
+const FLAG_COLUMNS: Record<DietFlag, Column> = {
+  isVegan: 'vegan',
+  isVegetarian: 'vegetarian',
+  isGlutenFree: 'gluten_free',
+};
+
+const OPTIONAL_SUFFIX = /\s*\(optional\)$/i;
+
+export interface ImportRowError {
+  row: number;
+  column?: Column;
+  message: string;
+}
+
+export interface ImportRowResult {
+  row: number;
+  action: 'create' | 'update' | 'unchanged';
+  productId?: string;
+  name: string;
+  changes?: FieldChanges;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  summary: { rows: number; create: number; update: number; unchanged: number; errors: number };
+  rows: ImportRowResult[];
+  errors: ImportRowError[];
+}
+
+interface SheetRecord {
+  row: number;
+  values: Partial<Record<Column, string>>;
+}
+
+interface PlannedRow extends ImportRowResult {
+  data: {
+    name: string;
+    description?: string | null;
+    isActive?: boolean;
+  } & DietFlags;
+  ingredients?: Array<{ ingredientId: string; isOptional: boolean }>;
+  price?: { value: number; effectiveFrom: Date };
+}
+
+class RowError extends Error {
+  constructor(
+    public column: Column | undefined,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+// ===== Reading =====
+
+export function detectPriceListFormat(buffer: Buffer): PriceListFormat {
+  // XLSX files are zip archives
+  return buffer.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04])) ? 'xlsx' : 'csv';
+}
+
+function cellText(cell: ExcelJS.Cell): string {
+  const { value } = cell;
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return cell.text;
+}
+
+async function readSheet(buffer: Buffer, format: PriceListFormat): Promise<string[][]> {
+  if (format === 'csv') {
+    return parseCsv(decodeText(buffer));
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  try {
+    // exceljs types its input as a plain ArrayBuffer
+    await workbook.xlsx.load(
+      buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer
+    );
+  } catch {
+    throw new ValidationError('The file is not a readable XLSX workbook');
+  }
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  for (let index = 1; index <= sheet.rowCount; index++) {
+    const row = sheet.getRow(index);
+    rows.push(Array.from({ length: sheet.columnCount }, (_, column) => cellText(row.getCell(column + 1))));
+  }
+  return rows;
+}
+
+function normalizeHeader(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+async function readPriceList(buffer: Buffer, format: PriceListFormat): Promise<SheetRecord[]> {
+  const rows = await readSheet(buffer, format);
+  const headerIndex = rows.findIndex((row) => row.some((value) => value.trim() !== ''));
+  if (headerIndex === -1) {
+    throw new ValidationError('The price list is empty');
+  }
+
+  const columns = rows[headerIndex].map((header) => {
+    const name = normalizeHeader(header);
+    return (PRICE_LIST_COLUMNS as readonly string[]).includes(name) ? (name as Column) : null;
+  });
+
+  const missing = REQUIRED_COLUMNS.filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new ValidationError(
+      'The price list is missing required columns',
+      missing.map((column) => ({ column, message: 'Column not found in the header row' }))
+    );
+  }
+
+  return rows.slice(headerIndex + 1).flatMap((row, offset) => {
+    if (row.every((value) => value.trim() === '')) return [];
+
+    const values: SheetRecord['values'] = {};
+    columns.forEach((column, index) => {
+      if (column) values[column] = unescapeFormula((row[index] ?? '').trim());
+    });
+    return [{ row: headerIndex + offset + 2, values }];
+  });
+}
+
+// ===== Cell parsing =====
+
+function parsePrice(value: string | undefined): number {
+  const normalized = (value ?? '').replace(/[€\s]/g, '').replace(',', '.');
+  if (!/^\d+(\.\d{1,2})?$/.test(normalized) || Number(normalized) <= 0) {
+    throw new RowError('price', 'Must be a positive amount with at most two decimals');
+  }
+  return Number(normalized);
+}
+
+const TRUE_VALUES = ['yes', 'ja', 'si', 'sí', 'true', '1', 'x'];
+const FALSE_VALUES = ['no', 'nein', 'false', '0'];
+
+function parseBoolean(value: string | undefined, column: Column): boolean | undefined {
+  if (!value) return undefined;
+
+  const normalized = value.toLowerCase();
+  if (TRUE_VALUES.includes(normalized)) return true;
+  if (FALSE_VALUES.includes(normalized)) return false;
+  throw new RowError(column, 'Must be yes or no');
+}
+
+// Plain dates are midnight in Germany; full timestamps are taken as given
+function parseEffectiveFrom(value: string | undefined, now: Date): Date | undefined {
+  if (!value) return undefined;
+
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? fromZonedTime(value, 0, DEFAULT_TIMEZONE) : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new RowError('effective_from', 'Must be a date (YYYY-MM-DD) or an ISO timestamp');
+  }
+  if (date < now) {
+    throw new RowError('effective_from', 'Price changes cannot take effect in the past');
+  }
+  return date;
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function formatIngredients(links: Array<{ isOptional: boolean; ingredient: { name: string } }>): string {
+  return links
+    .map(({ ingredient, isOptional }) => (isOptional ? `${ingredient.name} (optional)` : ingredient.name))
+    .sort((a, b) => a.localeCompare(b))
+    .join(', ');
+}
+
+// ===== Planning =====
+
+async function loadCatalog() {
+  const now = new Date();
+  const [ingredients, allergens, products] = await Promise.all([
+    prisma.ingredient.findMany({ include: { allergenInfo: true } }),
+    prisma.allergen.findMany(),
+    prisma.product.findMany({
+      include: {
+        ingredients: { include: { ingredient: { include: { allergenInfo: true } } } },
+        priceChanges: { where: { menuItemId: null, effectiveFrom: { gt: now } }, select: { effectiveFrom: true } },
+      },
+    }),
+  ]);
+
+  return {
+    ingredientsByName: new Map(ingredients.map((ingredient) => [ingredient.name.toLowerCase(), ingredient])),
+    allergenCodes: new Map(
+      allergens.flatMap(({ code, name }) => [
+        [code.toLowerCase(), code],
+        [name.toLowerCase(), code],
+      ])
+    ),
+    products: await applyProductPrices(products, now),
+  };
+}
+
+type Catalog = Awaited<ReturnType<typeof loadCatalog>>;
+type CatalogProduct = Catalog['products'][number];
+
+function findTarget(record: SheetRecord, catalog: Catalog): CatalogProduct | undefined {
+  const { id, name } = record.values;
+
+  if (id) {
+    const product = catalog.products.find((entry) => entry.id === id);
+    if (!product) throw new RowError('id', 'No product with this id');
+    return product;
+  }
+
+  const matches = catalog.products.filter((entry) => entry.name.toLowerCase() === name!.toLowerCase());
+  if (matches.length > 1) {
+    throw new RowError('name', 'Several products have this name; add the id column to tell them apart');
+  }
+  return matches[0];
+}
+
+function planRow(record: SheetRecord, catalog: Catalog, now: Date): PlannedRow {
+  const { values } = record;
+
+  const name = values.name ?? '';
+  if (!name || name.length > 200) {
+    throw new RowError('name', 'Must be between 1 and 200 characters');
+  }
+
+  const existing = findTarget(record, catalog);
+  if (existing?.archivedAt) {
+    throw new RowError(values.id ? 'id' : 'name', 'Product is archived; restore it before importing');
+  }
+
+  const price = parsePrice(values.price);
+  const effectiveFrom = parseEffectiveFrom(values.effective_from, now);
+  if (effectiveFrom && !existing) {
+    throw new RowError('effective_from', 'New products are created with their current price');
+  }
+  if (
+    effectiveFrom &&
+    existing!.priceChanges.some((change) => change.effectiveFrom.getTime() === effectiveFrom.getTime())
+  ) {
+    throw new RowError('effective_from', 'A price change already takes effect at this time');
+  }
+
+  // Ingredients: replaced when the column is present, kept otherwise
+  let ingredients = existing?.ingredients.map(({ ingredient, isOptional }) => ({ ingredient, isOptional })) ?? [];
+  let ingredientsChanged = !existing && values.ingredients !== undefined;
+  if (values.ingredients !== undefined) {
+    const unknown: string[] = [];
+    const listed = splitList(values.ingredients).flatMap((entry) => {
+      const ingredientName = entry.replace(OPTIONAL_SUFFIX, '');
+      const ingredient = catalog.ingredientsByName.get(ingredientName.toLowerCase());
+      if (!ingredient) {
+        unknown.push(ingredientName);
+        return [];
+      }
+      return [{ ingredient, isOptional: OPTIONAL_SUFFIX.test(entry) }];
+    });
+
+    if (unknown.length > 0) {
+      throw new RowError('ingredients', `Unknown ingredients: ${unknown.join(', ')}`);
+    }
+    if (new Set(listed.map(({ ingredient }) => ingredient.id)).size !== listed.length) {
+      throw new RowError('ingredients', 'An ingredient is listed twice');
+    }
+
+    ingredientsChanged ||= formatIngredients(listed) !== formatIngredients(ingredients);
+    ingredients = listed;
+  }
+
+  // Declared allergens must be exactly what the ingredients contain
+  if (values.allergens !== undefined) {
+    const declared = new Set<string>();
+    for (const entry of splitList(values.allergens)) {
+      const code = catalog.allergenCodes.get(entry.toLowerCase());
+      if (!code) throw new RowError('allergens', `Unknown allergen: ${entry}`);
+      declared.add(code);
+    }
+
+    const actual = new Set(productAllergens({ ingredients }).keys());
+    const missing = [...actual].filter((code) => !declared.has(code));
+    const extra = [...declared].filter((code) => !actual.has(code));
+    if (missing.length > 0 || extra.length > 0) {
+      const details = [
+        missing.length > 0 && `not listed: ${missing.sort().join(', ')}`,
+        extra.length > 0 && `not in the ingredients: ${extra.sort().join(', ')}`,
+      ].filter(Boolean);
+      throw new RowError('allergens', `Allergens do not match the ingredients (${details.join('; ')})`);
+    }
+  }
+
+  // Diet flags: declared cells win, empty cells are derived from the ingredients
+  const derived = deriveDietFlags(ingredients.map(({ ingredient }) => ingredient));
+  const flags = Object.fromEntries(
+    DIET_FLAGS.map((flag) => [
+      flag,
+      parseBoolean(values[FLAG_COLUMNS[flag]], FLAG_COLUMNS[flag]) ??
+        derived[flag].value ??
+        existing?.[flag] ??
+        false,
+    ])
+  ) as DietFlags;
+
+  const [conflict] = findDietFlagConflicts(flags, ingredients.map(({ ingredient }) => ingredient));
+  if (conflict) {
+    throw new RowError(
+      FLAG_COLUMNS[conflict.flag],
+      `Contradicted by ${conflict.violatedBy.map((ingredient) => ingredient.name).join(', ')}`
+    );
+  }
+
+  const data: PlannedRow['data'] = {
+    name,
+    ...flags,
+    ...(values.description !== undefined && { description: values.description || null }),
+    ...(values.active !== undefined && { isActive: parseBoolean(values.active, 'active') }),
+  };
+  const plannedIngredients = ingredientsChanged
+    ? ingredients.map(({ ingredient, isOptional }) => ({ ingredientId: ingredient.id, isOptional }))
+    : undefined;
+
+  if (!existing) {
+    return {
+      row: record.row,
+      action: 'create',
+      name,
+      data,
+      ingredients: plannedIngredients,
+      price: { value: price, effectiveFrom: now },
+    };
+  }
+
+  const priceChanged = Boolean(effectiveFrom) || !existing.price.equals(price);
+  const snapshot = (
+    product: Record<string, unknown>,
+    links: typeof ingredients,
+    amount: unknown
+  ): Record<string, unknown> => ({
+    ...product,
+    price: String(amount),
+    ingredients: formatIngredients(links),
+  });
+  const changes = diffFields(
+    snapshot(existing, existing.ingredients, existing.price),
+    snapshot({ ...existing, ...data }, ingredients, price),
+    ['name', 'description', 'isActive', ...DIET_FLAGS, 'price', 'ingredients']
+  );
+  if (effectiveFrom) {
+    changes.price = { from: existing.price.toString(), to: String(price) };
+    changes.effectiveFrom = { from: null, to: effectiveFrom.toISOString() };
+  }
+
+  return {
+    row: record.row,
+    action: Object.keys(changes).length > 0 ? 'update' : 'unchanged',
+    productId: existing.id,
+    name,
+    changes,
+    data,
+    ingredients: plannedIngredients,
+    price: priceChanged ? { value: price, effectiveFrom: effectiveFrom ?? now } : undefined,
+  };
+}
+
+// ===== Import =====
+
+function resultOf({ row, action, productId, name, changes }: PlannedRow): ImportRowResult {
+  return { row, action, productId, name, changes };
+}
+
+// Validates the whole list first; without dryRun it then applies every row in one
+// transaction, or nothing when any row is invalid.
+export async function importPriceList(
+  buffer: Buffer,
+  options: { dryRun: boolean },
+  userId: string,
+  req?: AuthenticatedRequest
+): Promise<ImportReport> {
+  const format = detectPriceListFormat(buffer);
+  const records = await readPriceList(buffer, format);
+  const catalog = await loadCatalog();
+  const now = new Date();
+
+  const planned: PlannedRow[] = [];
+  const errors: ImportRowError[] = [];
+  const seen = new Map<string, number>();
+
+  for (const record of records) {
+    try {
+      const plan = planRow(record, catalog, now);
+      const key = plan.productId ?? `new:${plan.name.toLowerCase()}`;
+      const duplicateOf = seen.get(key);
+      if (duplicateOf) {
+        throw new RowError(record.values.id ? 'id' : 'name', `Same product as row ${duplicateOf}`);
+      }
+      seen.set(key, record.row);
+      planned.push(plan);
+    } catch (error) {
+      if (!(error instanceof RowError)) throw error;
+      errors.push({ row: record.row, column: error.column, message: error.message });
+    }
+  }
+
+  const report: ImportReport = {
+    dryRun: options.dryRun,
+    summary: {
+      rows: records.length,
+      create: planned.filter(({ action }) => action === 'create').length,
+      update: planned.filter(({ action }) => action === 'update').length,
+      unchanged: planned.filter(({ action }) => action === 'unchanged').length,
+      errors: errors.length,
+    },
+    rows: planned.map(resultOf),
+    errors,
+  };
+
+  if (options.dryRun) return report;
+
+  if (errors.length > 0) {
+    throw new ValidationError('The price list has invalid rows', errors);
+  }
+
+  await prisma.$transaction(
+    async (tx) => {
+      for (const plan of planned) {
+        if (plan.action === 'create') {
+          const product = await tx.product.create({
+            data: {
+              ...plan.data,
+              price: plan.price!.value,
+              priceChanges: {
+                create: { price: plan.price!.value, effectiveFrom: now, createdBy: userId },
+              },
+              ingredients: { create: plan.ingredients ?? [] },
+            },
+          });
+          plan.productId = product.id;
+        } else if (plan.action === 'update') {
+          const productId = plan.productId!;
+          await tx.product.update({ where: { id: productId }, data: plan.data });
+
+          if (plan.ingredients) {
+            // Ingredients that stay keep their recipe quantity and notes
+            const ingredientIds = plan.ingredients.map(({ ingredientId }) => ingredientId);
+            await tx.productIngredient.deleteMany({
+              where: { productId, ingredientId: { notIn: ingredientIds } },
+            });
+            for (const link of plan.ingredients) {
+              await tx.productIngredient.upsert({
+                where: { productId_ingredientId: { productId, ingredientId: link.ingredientId } },
+                create: { ...link, productId },
+                update: { isOptional: link.isOptional },
+              });
+            }
+          }
+          if (plan.price) {
+            await recordPriceChange(tx, { productId }, plan.price.value, plan.price.effectiveFrom, {
+              createdBy: userId,
+              note: 'Price list import',
+            });
+          }
+        }
+      }
+    },
+    { timeout: 60_000 }
+  );
+
+  await createAuditLog({
+    userId,
+    action: AuditActions.PRODUCT_IMPORT,
+    resource: 'product',
+    metadata: { format, summary: report.summary },
+    req,
+  });
+
+  // Each product also gets its own entry, so its history shows what the import changed
+  for (const plan of planned) {
+    if (plan.action === 'unchanged') continue;
+
+    await createAuditLog({
+      userId,
+      action: plan.action === 'create' ? AuditActions.PRODUCT_CREATE : AuditActions.PRODUCT_UPDATE,
+      resource: 'product',
+      resourceId: plan.productId,
+      metadata: { source: 'price_list_import', row: plan.row, ...(plan.changes && { changes: plan.changes }) },
+      req,
+    });
+  }
+
+  // Created rows now carry their product id
+  return { ...report, rows: planned.map(resultOf) };
+}
+
+// ===== Export =====
+
+// Current products in the import format, so the file can be edited and imported again
+export async function exportPriceList(format: PriceListFormat): Promise<Buffer> {
+  const products = await prisma.product.findMany({
+    where: { archivedAt: null },
+    include: { ingredients: { include: { ingredient: { include: { allergenInfo: true } } } } },
+    orderBy: { name: 'asc' },
+  });
+  const priced = await applyProductPrices(products);
+  const yesNo = (value: boolean) => (value ? 'yes' : 'no');
+
+  const rows = priced.map((product) => ({
+    id: product.id,
+    name: product.name,
+    description: product.description ?? '',
+    price: product.price,
+    effective_from: '',
+    vegan: yesNo(product.isVegan),
+    vegetarian: yesNo(product.isVegetarian),
+    gluten_free: yesNo(product.isGlutenFree),
+    ingredients: formatIngredients(product.ingredients),
+    allergens: [...productAllergens(product).keys()].sort().join(', '),
+    active: yesNo(product.isActive),
+  }));
+
+  if (format === 'csv') {
+    return toCsv([
+      [...PRICE_LIST_COLUMNS],
+      ...rows.map((row) =>
+        PRICE_LIST_COLUMNS.map((column) =>
+          column === 'price' ? row.price.toFixed(2).replace('.', ',') : escapeFormula(String(row[column]))
+        )
+      ),
+    ]);
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Products');
+  sheet.columns = PRICE_LIST_COLUMNS.map((column) => ({
+    header: column,
+    key: column,
+    width: column === 'description' || column === 'ingredients' ? 50 : column === 'name' ? 30 : 14,
+    ...(column === 'price' && { style: { numFmt: '0.00' } }),
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+  sheet.addRows(rows.map((row) => ({ ...row, price: row.price.toNumber() })));
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
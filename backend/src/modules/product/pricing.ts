@@ -0,0 +1,248 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../config/index.js';
+import { NotFoundError, ValidationError, ConflictError } from '../../shared/middleware/index.js';
+import { createAuditLog, AuditActions, serializableTransaction } from '../../shared/utils/index.js';
+import type { AuthenticatedRequest } from '../../shared/types/index.js';
+
+type Decimal = Prisma.Decimal;
+
+export interface PriceTarget {
+  productId: string;
+  menuItemId?: string | null;
+}
+
+export interface SchedulePriceInput {
+  price: number | null;
+  effectiveFrom?: Date;
+  note?: string;
+}
+
+interface PricedProduct {
+  id: string;
+  price: Decimal;
+}
+
+interface PricedMenuItem {
+  id: string;
+  productId: string;
+  priceOverride: Decimal | null;
+  product: PricedProduct;
+}
+
+// Latest base and override rows in effect at an instant
+async function pricesInEffect(productIds: string[], menuItemIds: string[], at: Date) {
+  const rows = await prisma.priceChange.findMany({
+    where: {
+      productId: { in: productIds },
+      effectiveFrom: { lte: at },
+      OR: [{ menuItemId: null }, ...(menuItemIds.length > 0 ? [{ menuItemId: { in: menuItemIds } }] : [])],
+    },
+    orderBy: { effectiveFrom: 'desc' },
+    distinct: ['productId', 'menuItemId'],
+  });
+
+  const base = new Map<string, Decimal>();
+  const overrides = new Map<string, Decimal | null>();
+  for (const row of rows) {
+    if (row.menuItemId) {
+      overrides.set(row.menuItemId, row.price);
+    } else if (row.price) {
+      base.set(row.productId, row.price);
+    }
+  }
+
+  return { base, overrides };
+}
+
+// Products with `price` replaced by the price in effect at the instant. Products
+// without history keep their stored price.
+export async function applyProductPrices<T extends PricedProduct>(products: T[], at = new Date()): Promise<T[]> {
+  if (products.length === 0) return products;
+
+  const { base } = await pricesInEffect(products.map(({ id }) => id), [], at);
+
+  return products.map((product) => ({ ...product, price: base.get(product.id) ?? product.price }));
+}
+
+// Menu items with override and product price resolved at the instant, plus the final `price`
+export async function applyMenuItemPrices<T extends PricedMenuItem>(
+  items: T[],
+  at = new Date()
+): Promise<Array<T & { price: Decimal }>> {
+  const { base, overrides } = await pricesInEffect(
+    [...new Set(items.map(({ productId }) => productId))],
+    items.map(({ id }) => id),
+    at
+  );
+
+  return items.map((item) => {
+    const productPrice = base.get(item.productId) ?? item.product.price;
+    const priceOverride = overrides.has(item.id) ? overrides.get(item.id)! : item.priceOverride;
+
+    return {
+      ...item,
+      priceOverride,
+      product: { ...item.product, price: productPrice },
+      price: priceOverride ?? productPrice,
+    };
+  });
+}
+
+// Records a price change in a transaction. Targets that predate the history get their
+// stored price written back as the first row, so earlier instants keep resolving to it.
+// Changes already in effect also update the stored price.
+export async function recordPriceChange(
+  tx: Prisma.TransactionClient,
+  target: PriceTarget,
+  price: number | Decimal | null,
+  effectiveFrom: Date,
+  options: { note?: string; createdBy?: string } = {}
+) {
+  const menuItemId = target.menuItemId ?? null;
+  const existing = await tx.priceChange.findMany({
+    where: { productId: target.productId, menuItemId },
+    select: { effectiveFrom: true },
+  });
+
+  if (existing.some((row) => row.effectiveFrom.getTime() === effectiveFrom.getTime())) {
+    throw new ConflictError('A price change already takes effect at this time');
+  }
+
+  if (existing.length === 0) {
+    if (menuItemId) {
+      const item = await tx.menuItem.findUniqueOrThrow({
+        where: { id: menuItemId },
+        include: { menu: { select: { createdAt: true } } },
+      });
+      if (item.priceOverride) {
+        await tx.priceChange.create({
+          data: { ...target, price: item.priceOverride, effectiveFrom: item.menu.createdAt },
+        });
+      }
+    } else {
+      const product = await tx.product.findUniqueOrThrow({ where: { id: target.productId } });
+      await tx.priceChange.create({
+        data: { productId: product.id, price: product.price, effectiveFrom: product.createdAt },
+      });
+    }
+  }
+
+  const change = await tx.priceChange.create({
+    data: { ...target, menuItemId, price, effectiveFrom, note: options.note, createdBy: options.createdBy },
+  });
+
+  if (effectiveFrom <= new Date()) {
+    if (menuItemId) {
+      await tx.menuItem.update({ where: { id: menuItemId }, data: { priceOverride: price } });
+    } else {
+      await tx.product.update({ where: { id: target.productId }, data: { price: price! } });
+    }
+  }
+
+  return change;
+}
+
+export async function schedulePriceChange(
+  target: PriceTarget,
+  input: SchedulePriceInput,
+  userId: string,
+  req?: AuthenticatedRequest
+) {
+  const now = new Date();
+  const effectiveFrom = input.effectiveFrom ?? now;
+
+  if (effectiveFrom < now) {
+    throw new ValidationError('Price changes cannot take effect in the past', [
+      { path: 'effectiveFrom', message: 'Must not be in the past' },
+    ]);
+  }
+  if (input.price === null && !target.menuItemId) {
+    throw new ValidationError('Products need a price');
+  }
+
+  const change = await serializableTransaction(async (tx) => {
+    const product = await tx.product.findUnique({ where: { id: target.productId } });
+    if (!product) throw new NotFoundError('Product');
+
+    return recordPriceChange(tx, target, input.price, effectiveFrom, {
+      note: input.note,
+      createdBy: userId,
+    });
+  });
+
+  await createAuditLog({
+    userId,
+    action: AuditActions.PRICE_CHANGE_SCHEDULE,
+    resource: target.menuItemId ? 'menu_item' : 'product',
+    resourceId: target.menuItemId ?? target.productId,
+    metadata: {
+      priceChangeId: change.id,
+      price: change.price?.toString() ?? null,
+      effectiveFrom: change.effectiveFrom.toISOString(),
+    },
+    req,
+  });
+
+  return change;
+}
+
+// Only changes that have not taken effect yet can be withdrawn; the rest is history
+export async function cancelPriceChange(
+  target: PriceTarget,
+  priceChangeId: string,
+  userId: string,
+  req?: AuthenticatedRequest
+) {
+  const change = await prisma.priceChange.findFirst({
+    where: { id: priceChangeId, productId: target.productId, menuItemId: target.menuItemId ?? null },
+  });
+
+  if (!change) throw new NotFoundError('Price change');
+
+  if (change.effectiveFrom <= new Date()) {
+    throw new ConflictError('Price changes already in effect cannot be cancelled');
+  }
+
+  await prisma.priceChange.delete({ where: { id: change.id } });
+
+  await createAuditLog({
+    userId,
+    action: AuditActions.PRICE_CHANGE_CANCEL,
+    resource: target.menuItemId ? 'menu_item' : 'product',
+    resourceId: target.menuItemId ?? target.productId,
+    metadata: {
+      priceChangeId: change.id,
+      price: change.price?.toString() ?? null,
+      effectiveFrom: change.effectiveFrom.toISOString(),
+    },
+    req,
+  });
+}
+
+// Base price history of a product, oldest first, with the price at the given instant
+export async function getPriceHistory(productId: string, at = new Date()) {
+  const product = await prisma.product.findUnique({
+    where: { id: productId },
+    include: {
+      priceChanges: {
+        include: { menuItem: { select: { id: true, menuId: true } } },
+        orderBy: { effectiveFrom: 'asc' },
+      },
+    },
+  });
+
+  if (!product) throw new NotFoundError('Product');
+
+  const [priced] = await applyProductPrices([product], at);
+  const now = new Date();
+
+  return {
+    productId: product.id,
+    at,
+    price: priced.price,
+    history: product.priceChanges.map((change) => ({
+      ...change,
+      scheduled: change.effectiveFrom > now,
+    })),
+  };
+}
@@ -0,0 +1,182 @@
+import type { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../../config/index.js';
+import { NotFoundError } from '../../shared/middleware/index.js';
+import {
+  createAuditLog,
+  AuditActions,
+  diffFields,
+  CONTENT_LANGUAGE,
+  SUPPORTED_LANGUAGES,
+} from '../../shared/utils/index.js';
+import type { Language } from '../../shared/utils/index.js';
+import type { AuthenticatedRequest } from '../../shared/types/index.js';
+
+export const TRANSLATABLE_FIELDS = ['name', 'description'] as const;
+export type TranslatableField = (typeof TRANSLATABLE_FIELDS)[number];
+
+export type Translation = Partial<Record<TranslatableField, string>>;
+export type Translations = Partial<Record<Language, Translation>>;
+
+export type TranslatableKind = 'product' | 'ingredient' | 'menu';
+
+// Languages content can be translated into
+export const TRANSLATION_LANGUAGES: Language[] = SUPPORTED_LANGUAGES.filter(
+  (lang) => lang !== CONTENT_LANGUAGE
+);
+
+export const translationLanguageSchema = z
+  .enum(SUPPORTED_LANGUAGES)
+  .refine((lang) => lang !== CONTENT_LANGUAGE, {
+    message: 'German content is edited on the product, ingredient or menu itself',
+  });
+
+// null clears a translated field so it falls back again
+export const translationSchema = z.object({
+  name: z.string().min(1).max(200).nullable().optional(),
+  description: z.string().max(2000).nullable().optional(),
+});
+
+export type TranslationInput = z.infer<typeof translationSchema>;
+
+interface TranslatableEntity {
+  name: string;
+  description: string | null;
+  translations: Prisma.JsonValue;
+}
+
+function translationsOf(entity: TranslatableEntity): Translations {
+  const { translations } = entity;
+  return translations && typeof translations === 'object' && !Array.isArray(translations)
+    ? (translations as Translations)
+    : {};
+}
+
+function translatedField(
+  entity: TranslatableEntity,
+  field: TranslatableField,
+  languages: Language[]
+): string | null {
+  const translations = translationsOf(entity);
+
+  for (const lang of languages) {
+    if (lang === CONTENT_LANGUAGE) break;
+    const value = translations[lang]?.[field];
+    if (value) return value;
+  }
+
+  return entity[field];
+}
+
+// Name and description in the first language of the chain that has them
+export function localize<T extends TranslatableEntity>(entity: T, languages: Language[]): T {
+  return {
+    ...entity,
+    name: translatedField(entity, 'name', languages) ?? entity.name,
+    description: translatedField(entity, 'description', languages),
+  };
+}
+
+// Localizes a product and the ingredients it includes
+export function localizeProduct<
+  T extends TranslatableEntity & { ingredients?: Array<{ ingredient: TranslatableEntity }> },
+>(product: T, languages: Language[]): T {
+  const localized = localize(product, languages);
+  if (!product.ingredients) return localized;
+
+  return {
+    ...localized,
+    ingredients: product.ingredients.map((link) => ({
+      ...link,
+      ingredient: localize(link.ingredient, languages),
+    })),
+  };
+}
+
+async function findTranslatable(kind: TranslatableKind, id: string) {
+  const select = { id: true, name: true, description: true, translations: true };
+
+  const entity =
+    kind === 'product'
+      ? await prisma.product.findUnique({ where: { id }, select })
+      : kind === 'ingredient'
+        ? await prisma.ingredient.findUnique({ where: { id }, select })
+        : await prisma.menu.findUnique({ where: { id }, select });
+
+  if (!entity) throw new NotFoundError(kind.charAt(0).toUpperCase() + kind.slice(1));
+
+  return entity;
+}
+
+// Merges one language's translation into an entity; omitted fields stay as they are
+export async function setTranslation(
+  kind: TranslatableKind,
+  id: string,
+  lang: Language,
+  input: TranslationInput,
+  userId: string,
+  req?: AuthenticatedRequest
+) {
+  const entity = await findTranslatable(kind, id);
+  const translations = translationsOf(entity);
+  const before: Translation = translations[lang] ?? {};
+  const after: Translation = { ...before };
+
+  for (const field of TRANSLATABLE_FIELDS) {
+    const value = input[field];
+    if (value === null) delete after[field];
+    else if (value !== undefined) after[field] = value;
+  }
+
+  const data = { translations: { ...translations, [lang]: after } as Prisma.InputJsonObject };
+  const updated =
+    kind === 'product'
+      ? await prisma.product.update({ where: { id }, data })
+      : kind === 'ingredient'
+        ? await prisma.ingredient.update({ where: { id }, data })
+        : await prisma.menu.update({ where: { id }, data });
+
+  await createAuditLog({
+    userId,
+    action: AuditActions.CONTENT_TRANSLATE,
+    resource: kind,
+    resourceId: id,
+    metadata: { language: lang, changes: diffFields(before, after, [...TRANSLATABLE_FIELDS]) },
+    req,
+  });
+
+  return updated;
+}
+
+function missingFields(entity: TranslatableEntity, lang: Language): TranslatableField[] {
+  const translation = translationsOf(entity)[lang] ?? {};
+  return TRANSLATABLE_FIELDS.filter((field) => entity[field] && !translation[field]);
+}
+
+// Active content lacking a translation of a field that has German text
+export async function findMissingTranslations(languages: Language[] = TRANSLATION_LANGUAGES) {
+  const select = { id: true, name: true, description: true, translations: true };
+
+  const [products, ingredients, menus] = await Promise.all([
+    prisma.product.findMany({ where: { archivedAt: null }, select, orderBy: { name: 'asc' } }),
+    prisma.ingredient.findMany({ select, orderBy: { name: 'asc' } }),
+    prisma.menu.findMany({ where: { isActive: true }, select, orderBy: { name: 'asc' } }),
+  ]);
+
+  const report = (entities: Array<TranslatableEntity & { id: string }>) =>
+    entities.flatMap((entity) => {
+      const missing = Object.fromEntries(
+        languages
+          .map((lang) => [lang, missingFields(entity, lang)] as const)
+          .filter(([, fields]) => fields.length > 0)
+      );
+      return Object.keys(missing).length > 0 ? [{ id: entity.id, name: entity.name, missing }] : [];
+    });
+
+  return {
+    languages,
+    products: report(products),
+    ingredients: report(ingredients),
+    menus: report(menus),
+  };
+}
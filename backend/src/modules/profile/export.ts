@@ -0,0 +1,92 @@
+import { prisma } from '../../config/index.js';
+import { NotFoundError } from '../../shared/middleware/index.js';
+
+// Bump when the shape of the archive changes so recipients can tell versions apart
+export const DATA_EXPORT_VERSION = 1;
+
+// Everything stored about the user (Art. 15 and 20 GDPR). Credentials and session
+// secrets are left out: they are not personal data the user can use elsewhere and
+// would let anyone holding the file act as the user.
+export async function buildDataExport(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      emailVerified: true,
+      isActive: true,
+      createdAt: true,
+      updatedAt: true,
+      lastLoginAt: true,
+    },
+  });
+  if (!user) throw new NotFoundError('User');
+
+  const [profile, sessions, roles, eventAttendance, orders, cateringRequests, auditLog] = await Promise.all([
+    prisma.profile.findUnique({
+      where: { userId },
+      include: {
+        preferences: { orderBy: [{ category: 'asc' }, { key: 'asc' }] },
+        dietaryRestrictions: { orderBy: [{ type: 'asc' }, { name: 'asc' }] },
+        // Revoked consents too: the history is part of what we hold
+        consents: { orderBy: { grantedAt: 'asc' } },
+      },
+    }),
+    prisma.session.findMany({
+      where: { userId },
+      select: { id: true, userAgent: true, ipAddress: true, createdAt: true, expiresAt: true },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.userRoleAssignment.findMany({
+      where: { userId },
+      select: {
+        assignedAt: true,
+        expiresAt: true,
+        role: { select: { name: true } },
+        organization: { select: { id: true, name: true } },
+        salesInstance: { select: { id: true, name: true } },
+      },
+      orderBy: { assignedAt: 'asc' },
+    }),
+    prisma.eventAttendee.findMany({
+      where: { userId },
+      include: { event: { select: { id: true, title: true, startsAt: true } } },
+    }),
+    prisma.order.findMany({
+      where: { userId },
+      include: { lines: true, salesInstance: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.cateringRequest.findMany({
+      where: { requestedBy: userId },
+      include: { items: true, organization: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.auditLog.findMany({
+      where: { userId },
+      select: {
+        action: true,
+        resource: true,
+        resourceId: true,
+        metadata: true,
+        ipAddress: true,
+        userAgent: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+
+  return {
+    version: DATA_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    user,
+    profile,
+    sessions,
+    roles,
+    eventAttendance,
+    orders,
+    cateringRequests,
+    auditLog,
+  };
+}
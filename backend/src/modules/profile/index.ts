@@ -2,9 +2,10 @@ import { Router } from 'express';
 import type { Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { prisma } from '../../config/index.js';
-import { authenticate, NotFoundError } from '../../shared/middleware/index.js';
+import { authenticate, rateLimit, RateLimitPolicies, NotFoundError } from '../../shared/middleware/index.js';
 import { createAuditLog, AuditActions } from '../../shared/utils/index.js';
 import type { AuthenticatedRequest, ApiResponse } from '../../shared/types/index.js';
+import { buildDataExport } from './export.js';
 
 // Schemas
 const updateProfileSchema = z.object({
@@ -173,8 +174,8 @@ router.delete(
         where: {
           profileId_type_name: {
             profileId: profile.id,
-            type: req.params.type,
-            name: req.params.name,
+            type: String(req.params.type),
+            name: String(req.params.name),
           },
         },
       });
@@ -230,4 +231,31 @@ router.post(
   }
 );
 
+// POST /profile/export
+router.post(
+  '/export',
+  authenticate,
+  rateLimit(RateLimitPolicies.dataExport),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const archive = await buildDataExport(req.user!.id);
+
+      await createAuditLog({
+        userId: req.user!.id,
+        action: AuditActions.PROFILE_EXPORT,
+        resource: 'user',
+        resourceId: req.user!.id,
+        req,
+      });
+
+      res
+        .attachment(`data-export-${archive.exportedAt.slice(0, 10)}.json`)
+        .type('json')
+        .send(JSON.stringify(archive, null, 2));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export const profileRoutes = router;
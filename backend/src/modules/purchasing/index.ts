@@ -0,0 +1,3 @@
+export { supplierRoutes, purchaseOrderRoutes } from './routes.js';
+export { purchasingService } from './purchasing.service.js';
+export * from './schemas.js';
@@ -0,0 +1,82 @@
+import ExcelJS from 'exceljs';
+import { prisma } from '../../config/index.js';
+import { NotFoundError } from '../../shared/middleware/index.js';
+import { toCsv } from '../../shared/utils/index.js';
+
+// Same layout as the order sheet (Bestelltabelle) sent to Spanish-speaking suppliers,
+// with the price columns added
+export const ORDER_SHEET_COLUMNS = [
+  'Codigo',
+  'Descripcion',
+  'Cajas',
+  'Uds x Caja',
+  'Cajas x Palet',
+  'Pais',
+  'pedido en unidades',
+  'Precio x Caja',
+  'Total',
+] as const;
+
+export async function renderOrderSheet(orderId: string, format: 'xlsx' | 'csv') {
+  const order = await prisma.purchaseOrder.findUnique({
+    where: { id: orderId },
+    include: {
+      buyer: { select: { name: true } },
+      supplier: { select: { name: true } },
+      lines: {
+        include: { catalogItem: { select: { casesPerPallet: true, countryOfOrigin: true } } },
+        orderBy: { code: 'asc' },
+      },
+    },
+  });
+
+  if (!order) throw new NotFoundError('Purchase order');
+
+  const rows = order.lines.map((line) => [
+    line.code,
+    line.name,
+    line.cases,
+    line.unitsPerCase,
+    line.catalogItem.casesPerPallet,
+    line.catalogItem.countryOfOrigin ?? '',
+    line.cases * line.unitsPerCase,
+    line.pricePerCase.toNumber(),
+    line.lineTotal.toNumber(),
+  ]);
+
+  if (format === 'csv') {
+    const cell = (value: string | number | null) =>
+      typeof value === 'number' && !Number.isInteger(value) ? value.toFixed(2).replace('.', ',') : String(value ?? '');
+
+    return toCsv([[...ORDER_SHEET_COLUMNS], ...rows.map((row) => row.map(cell))]);
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Pedido');
+  const date = (order.sentAt ?? order.createdAt).toISOString().slice(0, 10);
+
+  const details = [
+    ['Pedido', order.id],
+    ['Cliente', order.buyer.name],
+    ['Proveedor', order.supplier.name],
+    ['Fecha', date],
+  ];
+  for (const detail of details) {
+    sheet.addRow(detail).getCell(1).font = { bold: true };
+  }
+  sheet.addRow([]);
+
+  const header = sheet.addRow([...ORDER_SHEET_COLUMNS]);
+  header.font = { bold: true };
+  sheet.addRows(rows);
+  sheet.addRow(['', '', '', '', '', '', '', 'Total', order.totalAmount.toNumber()]).font = { bold: true };
+
+  ORDER_SHEET_COLUMNS.forEach((_, index) => {
+    sheet.getColumn(index + 1).width = index === 1 ? 45 : 14;
+  });
+  sheet.getColumn(8).numFmt = '0.00';
+  sheet.getColumn(9).numFmt = '0.00';
+  sheet.views = [{ state: 'frozen', ySplit: header.number }];
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,419 @@
+import { Prisma, OrganizationType, PurchaseOrderStatus } from '@prisma/client';
+import { prisma } from '../../config/index.js';
+import { createAuditLog, AuditActions, diffFields, serializableTransaction } from '../../shared/utils/index.js';
+import {
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  hasPermission,
+} from '../../shared/middleware/index.js';
+import type {
+  CreateCatalogItemInput,
+  UpdateCatalogItemInput,
+  CreatePurchaseOrderInput,
+  UpdatePurchaseOrderInput,
+  RecordDeliveryInput,
+} from './schemas.js';
+import type { AuthenticatedRequest, AuthenticatedUser } from '../../shared/types/index.js';
+
+const CATALOG_FIELDS = [
+  'code',
+  'name',
+  'description',
+  'category',
+  'packSize',
+  'unitsPerCase',
+  'casesPerPallet',
+  'countryOfOrigin',
+  'pricePerCase',
+  'isActive',
+] as const;
+
+const purchaseOrderInclude = {
+  lines: { orderBy: { code: 'asc' as const } },
+  buyer: { select: { id: true, name: true } },
+  supplier: { select: { id: true, name: true } },
+};
+
+async function findOrganization(id: string, type: OrganizationType) {
+  const organization = await prisma.organization.findUnique({ where: { id } });
+  if (!organization || organization.type !== type || !organization.isActive) return null;
+  return organization;
+}
+
+async function findSupplier(supplierId: string) {
+  const supplier = await findOrganization(supplierId, OrganizationType.SUPPLIER);
+  if (!supplier) throw new NotFoundError('Supplier');
+  return supplier;
+}
+
+export class PurchasingService {
+  // ===== Catalog =====
+
+  async listSuppliers() {
+    return prisma.organization.findMany({
+      where: { type: OrganizationType.SUPPLIER, isActive: true },
+      select: { id: true, name: true, slug: true },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async listCatalog(supplierId: string, includeInactive = false) {
+    await findSupplier(supplierId);
+
+    return prisma.catalogItem.findMany({
+      where: { supplierId, ...(!includeInactive && { isActive: true }) },
+      orderBy: [{ category: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  async createCatalogItem(
+    supplierId: string,
+    input: CreateCatalogItemInput,
+    userId: string,
+    req?: AuthenticatedRequest
+  ) {
+    await findSupplier(supplierId);
+
+    const existing = await prisma.catalogItem.findUnique({
+      where: { supplierId_code: { supplierId, code: input.code } },
+    });
+    if (existing) throw new ConflictError(`Article ${input.code} is already in the catalog`);
+
+    const item = await prisma.catalogItem.create({ data: { supplierId, ...input } });
+
+    await createAuditLog({
+      userId,
+      action: AuditActions.CATALOG_ITEM_CREATE,
+      resource: 'catalog_item',
+      resourceId: item.id,
+      metadata: { supplierId, code: item.code, pricePerCase: item.pricePerCase.toString() },
+      req,
+    });
+
+    return item;
+  }
+
+  async updateCatalogItem(
+    supplierId: string,
+    itemId: string,
+    input: UpdateCatalogItemInput,
+    userId: string,
+    req?: AuthenticatedRequest
+  ) {
+    const before = await prisma.catalogItem.findFirst({ where: { id: itemId, supplierId } });
+    if (!before) throw new NotFoundError('Catalog item');
+
+    if (input.code && input.code !== before.code) {
+      const taken = await prisma.catalogItem.findUnique({
+        where: { supplierId_code: { supplierId, code: input.code } },
+      });
+      if (taken) throw new ConflictError(`Article ${input.code} is already in the catalog`);
+    }
+
+    const after = await prisma.catalogItem.update({ where: { id: before.id }, data: input });
+
+    await createAuditLog({
+      userId,
+      action: AuditActions.CATALOG_ITEM_UPDATE,
+      resource: 'catalog_item',
+      resourceId: after.id,
+      metadata: { changes: diffFields(before, after, [...CATALOG_FIELDS]) },
+      req,
+    });
+
+    return after;
+  }
+
+  // ===== Purchase orders =====
+
+  // Lines priced from the supplier's current catalog
+  private async buildLines(supplierId: string, lines: CreatePurchaseOrderInput['lines']) {
+    const items = await prisma.catalogItem.findMany({
+      where: { id: { in: lines.map(({ catalogItemId }) => catalogItemId) }, supplierId },
+    });
+    const itemsById = new Map(items.map((item) => [item.id, item]));
+
+    const errors = lines
+      .filter(({ catalogItemId }) => !itemsById.get(catalogItemId)?.isActive)
+      .map(({ catalogItemId }) => ({
+        catalogItemId,
+        reason: itemsById.has(catalogItemId) ? 'No longer in the catalog' : 'Not in this supplier\'s catalog',
+      }));
+    if (errors.length > 0) {
+      throw new ValidationError('Some articles cannot be ordered', errors);
+    }
+
+    return lines.map(({ catalogItemId, cases }) => {
+      const item = itemsById.get(catalogItemId)!;
+      return {
+        catalogItemId,
+        code: item.code,
+        name: item.name,
+        unitsPerCase: item.unitsPerCase,
+        pricePerCase: item.pricePerCase,
+        cases,
+        lineTotal: item.pricePerCase.mul(cases),
+      };
+    });
+  }
+
+  private totalOf(lines: Array<{ lineTotal: Prisma.Decimal }>) {
+    return lines.reduce((sum, line) => sum.add(line.lineTotal), new Prisma.Decimal(0));
+  }
+
+  private async findOrder(orderId: string) {
+    const order = await prisma.purchaseOrder.findUnique({
+      where: { id: orderId },
+      include: purchaseOrderInclude,
+    });
+    if (!order) throw new NotFoundError('Purchase order');
+    return order;
+  }
+
+  async createPurchaseOrder(input: CreatePurchaseOrderInput, userId: string, req?: AuthenticatedRequest) {
+    const buyer = await findOrganization(input.buyerId, OrganizationType.FRANCHISE);
+    if (!buyer) throw new ValidationError('Only franchise organizations can raise purchase orders');
+    await findSupplier(input.supplierId);
+
+    const lines = await this.buildLines(input.supplierId, input.lines);
+    const totalAmount = this.totalOf(lines);
+
+    const order = await prisma.purchaseOrder.create({
+      data: {
+        buyerId: buyer.id,
+        supplierId: input.supplierId,
+        notes: input.notes,
+        createdBy: userId,
+        totalAmount,
+        lines: { create: lines },
+      },
+      include: purchaseOrderInclude,
+    });
+
+    await createAuditLog({
+      userId,
+      action: AuditActions.PURCHASE_ORDER_CREATE,
+      resource: 'purchase_order',
+      resourceId: order.id,
+      metadata: { buyerId: order.buyerId, supplierId: order.supplierId, totalAmount: totalAmount.toString() },
+      req,
+    });
+
+    return order;
+  }
+
+  // Drafts are only visible to the buyer
+  async getPurchaseOrder(orderId: string, user: AuthenticatedUser) {
+    const order = await this.findOrder(orderId);
+
+    const isBuyer = hasPermission(user, { permission: 'purchase_order.manage' }, { organizationId: order.buyerId });
+    if (order.status === PurchaseOrderStatus.DRAFT && !isBuyer) {
+      throw new NotFoundError('Purchase order');
+    }
+
+    return order;
+  }
+
+  async listForBuyer(buyerId: string, status?: PurchaseOrderStatus[]) {
+    return prisma.purchaseOrder.findMany({
+      where: { buyerId, ...(status && { status: { in: status } }) },
+      include: purchaseOrderInclude,
+      orderBy: { createdAt: 'desc' },
+      take: 200,
+    });
+  }
+
+  // Orders a supplier has received; drafts never show up here
+  async listForSupplier(supplierId: string, status?: PurchaseOrderStatus[]) {
+    const statuses = (status ?? Object.values(PurchaseOrderStatus)).filter(
+      (value) => value !== PurchaseOrderStatus.DRAFT
+    );
+
+    return prisma.purchaseOrder.findMany({
+      where: { supplierId, status: { in: statuses } },
+      include: purchaseOrderInclude,
+      orderBy: { sentAt: 'desc' },
+      take: 200,
+    });
+  }
+
+  async updateDraft(orderId: string, input: UpdatePurchaseOrderInput, userId: string, req?: AuthenticatedRequest) {
+    const before = await this.findOrder(orderId);
+    if (before.status !== PurchaseOrderStatus.DRAFT) {
+      throw new ConflictError('Only draft purchase orders can be changed');
+    }
+
+    const lines = input.lines && (await this.buildLines(before.supplierId, input.lines));
+
+    const order = await prisma.$transaction(async (tx) => {
+      // Recheck the status with the write, as send does, so a draft sent meanwhile stays as sent
+      const { count } = await tx.purchaseOrder.updateMany({
+        where: { id: before.id, status: PurchaseOrderStatus.DRAFT },
+        data: {
+          ...(input.notes !== undefined && { notes: input.notes }),
+          ...(lines && { totalAmount: this.totalOf(lines) }),
+        },
+      });
+      if (count === 0) throw new ConflictError('Purchase order changed concurrently, please retry');
+
+      if (lines) {
+        await tx.purchaseOrderLine.deleteMany({ where: { purchaseOrderId: before.id } });
+        await tx.purchaseOrderLine.createMany({
+          data: lines.map((line) => ({ ...line, purchaseOrderId: before.id })),
+        });
+      }
+
+      return tx.purchaseOrder.findUniqueOrThrow({ where: { id: before.id }, include: purchaseOrderInclude });
+    });
+
+    await createAuditLog({
+      userId,
+      action: AuditActions.PURCHASE_ORDER_UPDATE,
+      resource: 'purchase_order',
+      resourceId: order.id,
+      metadata: {
+        changes: diffFields(before, order, ['notes', 'totalAmount']),
+        ...(lines && { lines: lines.length }),
+      },
+      req,
+    });
+
+    return order;
+  }
+
+  async deleteDraft(orderId: string, userId: string, req?: AuthenticatedRequest) {
+    const { count } = await prisma.purchaseOrder.deleteMany({
+      where: { id: orderId, status: PurchaseOrderStatus.DRAFT },
+    });
+
+    if (count === 0) {
+      await this.findOrder(orderId);
+      throw new ConflictError('Only draft purchase orders can be deleted');
+    }
+
+    await createAuditLog({
+      userId,
+      action: AuditActions.PURCHASE_ORDER_DELETE,
+      resource: 'purchase_order',
+      resourceId: orderId,
+      req,
+    });
+  }
+
+  // Re-prices the lines from the catalog; the order is binding at these prices once sent
+  async send(orderId: string, userId: string, req?: AuthenticatedRequest) {
+    const draft = await this.findOrder(orderId);
+    if (draft.status !== PurchaseOrderStatus.DRAFT) {
+      throw new ConflictError('The purchase order has already been sent');
+    }
+
+    const lines = await this.buildLines(draft.supplierId, draft.lines);
+
+    await prisma.$transaction(async (tx) => {
+      const { count } = await tx.purchaseOrder.updateMany({
+        where: { id: draft.id, status: PurchaseOrderStatus.DRAFT },
+        data: { status: PurchaseOrderStatus.SENT, sentAt: new Date(), totalAmount: this.totalOf(lines) },
+      });
+      if (count === 0) throw new ConflictError('Purchase order changed concurrently, please retry');
+
+      for (const { catalogItemId, ...line } of lines) {
+        await tx.purchaseOrderLine.update({
+          where: { purchaseOrderId_catalogItemId: { purchaseOrderId: draft.id, catalogItemId } },
+          data: line,
+        });
+      }
+    });
+
+    await createAuditLog({
+      userId,
+      action: AuditActions.PURCHASE_ORDER_SEND,
+      resource: 'purchase_order',
+      resourceId: draft.id,
+      metadata: { supplierId: draft.supplierId, totalAmount: this.totalOf(lines).toString() },
+      req,
+    });
+
+    return this.findOrder(draft.id);
+  }
+
+  async confirm(orderId: string, userId: string, req?: AuthenticatedRequest) {
+    const { count } = await prisma.purchaseOrder.updateMany({
+      where: { id: orderId, status: PurchaseOrderStatus.SENT },
+      data: { status: PurchaseOrderStatus.CONFIRMED, confirmedAt: new Date() },
+    });
+
+    if (count === 0) {
+      const order = await this.findOrder(orderId);
+      throw new ConflictError(`A ${order.status.toLowerCase()} purchase order cannot be confirmed`);
+    }
+
+    await createAuditLog({
+      userId,
+      action: AuditActions.PURCHASE_ORDER_CONFIRM,
+      resource: 'purchase_order',
+      resourceId: orderId,
+      req,
+    });
+
+    return this.findOrder(orderId);
+  }
+
+  // Books the cases that arrived; the order is delivered once every line is complete
+  async recordDelivery(orderId: string, input: RecordDeliveryInput, userId: string, req?: AuthenticatedRequest) {
+    const order = await serializableTransaction(async (tx) => {
+      const current = await tx.purchaseOrder.findUnique({ where: { id: orderId }, include: { lines: true } });
+      if (!current) throw new NotFoundError('Purchase order');
+
+      const receivable: PurchaseOrderStatus[] = [
+        PurchaseOrderStatus.CONFIRMED,
+        PurchaseOrderStatus.PARTIALLY_DELIVERED,
+      ];
+      if (!receivable.includes(current.status)) {
+        throw new ConflictError('Deliveries can only be recorded for confirmed purchase orders');
+      }
+
+      const linesById = new Map(current.lines.map((line) => [line.id, line]));
+      const errors = input.lines.flatMap(({ lineId, cases }) => {
+        const line = linesById.get(lineId);
+        if (!line) return [{ lineId, reason: 'Not a line of this purchase order' }];
+        if (line.deliveredCases + cases > line.cases) {
+          return [{ lineId, reason: `Only ${line.cases - line.deliveredCases} cases are outstanding` }];
+        }
+        return [];
+      });
+      if (errors.length > 0) throw new ValidationError('Delivery does not match the order', errors);
+
+      for (const { lineId, cases } of input.lines) {
+        const line = linesById.get(lineId)!;
+        line.deliveredCases += cases;
+        await tx.purchaseOrderLine.update({
+          where: { id: lineId },
+          data: { deliveredCases: line.deliveredCases },
+        });
+      }
+
+      const complete = current.lines.every((line) => line.deliveredCases === line.cases);
+      return tx.purchaseOrder.update({
+        where: { id: current.id },
+        data: complete
+          ? { status: PurchaseOrderStatus.DELIVERED, deliveredAt: new Date() }
+          : { status: PurchaseOrderStatus.PARTIALLY_DELIVERED },
+        include: purchaseOrderInclude,
+      });
+    });
+
+    await createAuditLog({
+      userId,
+      action: AuditActions.PURCHASE_ORDER_DELIVERY,
+      resource: 'purchase_order',
+      resourceId: order.id,
+      metadata: { status: order.status, lines: input.lines },
+      req,
+    });
+
+    return order;
+  }
+}
+
+export const purchasingService = new PurchasingService();
@@ -0,0 +1,301 @@
+import { Router } from 'express';
+import type { Response, NextFunction } from 'express';
+import { purchasingService } from './purchasing.service.js';
+import { renderOrderSheet } from './order-sheet.js';
+import {
+  createCatalogItemSchema,
+  updateCatalogItemSchema,
+  createPurchaseOrderSchema,
+  updatePurchaseOrderSchema,
+  recordDeliverySchema,
+  purchaseOrderQuerySchema,
+  orderSheetQuerySchema,
+} from './schemas.js';
+import {
+  authenticate,
+  requirePermission,
+  hasPermission,
+  ScopeResolvers,
+  NotFoundError,
+} from '../../shared/middleware/index.js';
+import { prisma } from '../../config/index.js';
+import type { AuthenticatedRequest, ApiResponse, ScopeResolver } from '../../shared/types/index.js';
+
+// Buying or supplying organization of the purchase order in the :id route parameter
+const purchaseOrderParty =
+  (party: 'buyerId' | 'supplierId'): ScopeResolver =>
+  async (req) => {
+    const order = await prisma.purchaseOrder.findUnique({
+      where: { id: String(req.params.id) },
+      select: { buyerId: true, supplierId: true },
+    });
+
+    if (!order) throw new NotFoundError('Purchase order');
+
+    return { organizationId: order[party] };
+  };
+
+const asBuyer = { permission: 'purchase_order.manage', resolve: purchaseOrderParty('buyerId') };
+const asSupplier = { permission: 'purchase_order.fulfil', resolve: purchaseOrderParty('supplierId') };
+const manageCatalog = requirePermission({
+  permission: 'catalog.manage',
+  resolve: ScopeResolvers.organizationParam('id'),
+});
+
+// ===== SUPPLIERS =====
+
+const suppliers = Router();
+
+// GET /suppliers
+suppliers.get(
+  '/',
+  authenticate,
+  async (_req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const list = await purchasingService.listSuppliers();
+
+      res.json({ success: true, data: list });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /suppliers/:id/catalog
+suppliers.get(
+  '/:id/catalog',
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const supplierId = String(req.params.id);
+      // The supplier's own staff also see articles taken out of the catalog
+      const includeInactive = hasPermission(
+        req.user!,
+        { permission: 'catalog.manage' },
+        { organizationId: supplierId }
+      );
+      const items = await purchasingService.listCatalog(supplierId, includeInactive);
+
+      res.json({ success: true, data: items });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /suppliers/:id/catalog
+suppliers.post(
+  '/:id/catalog',
+  authenticate,
+  manageCatalog,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = createCatalogItemSchema.parse(req.body);
+      const item = await purchasingService.createCatalogItem(String(req.params.id), input, req.user!.id, req);
+
+      res.status(201).json({ success: true, data: item });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PATCH /suppliers/:id/catalog/:itemId
+suppliers.patch(
+  '/:id/catalog/:itemId',
+  authenticate,
+  manageCatalog,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = updateCatalogItemSchema.parse(req.body);
+      const item = await purchasingService.updateCatalogItem(
+        String(req.params.id),
+        String(req.params.itemId),
+        input,
+        req.user!.id,
+        req
+      );
+
+      res.json({ success: true, data: item });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /suppliers/:id/purchase-orders
+suppliers.get(
+  '/:id/purchase-orders',
+  authenticate,
+  requirePermission({ permission: 'purchase_order.fulfil', resolve: ScopeResolvers.organizationParam('id') }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const { status } = purchaseOrderQuerySchema.parse(req.query);
+      const orders = await purchasingService.listForSupplier(String(req.params.id), status);
+
+      res.json({ success: true, data: orders });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// ===== PURCHASE ORDERS =====
+
+const purchaseOrders = Router();
+
+// POST /purchase-orders
+purchaseOrders.post(
+  '/',
+  authenticate,
+  requirePermission({ permission: 'purchase_order.manage', resolve: ScopeResolvers.organizationBody('buyerId') }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = createPurchaseOrderSchema.parse(req.body);
+      const order = await purchasingService.createPurchaseOrder(input, req.user!.id, req);
+
+      res.status(201).json({ success: true, data: order });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /purchase-orders/organization/:organizationId
+purchaseOrders.get(
+  '/organization/:organizationId',
+  authenticate,
+  requirePermission({
+    permission: 'purchase_order.manage',
+    resolve: ScopeResolvers.organizationParam('organizationId'),
+  }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const { status } = purchaseOrderQuerySchema.parse(req.query);
+      const orders = await purchasingService.listForBuyer(String(req.params.organizationId), status);
+
+      res.json({ success: true, data: orders });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /purchase-orders/:id
+purchaseOrders.get(
+  '/:id',
+  authenticate,
+  requirePermission(asBuyer, asSupplier),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const order = await purchasingService.getPurchaseOrder(String(req.params.id), req.user!);
+
+      res.json({ success: true, data: order });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /purchase-orders/:id/export
+purchaseOrders.get(
+  '/:id/export',
+  authenticate,
+  requirePermission(asBuyer, asSupplier),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { format } = orderSheetQuerySchema.parse(req.query);
+      const order = await purchasingService.getPurchaseOrder(String(req.params.id), req.user!);
+      const file = await renderOrderSheet(order.id, format);
+
+      res.attachment(`pedido-${order.id}.${format}`).send(file);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PATCH /purchase-orders/:id
+purchaseOrders.patch(
+  '/:id',
+  authenticate,
+  requirePermission(asBuyer),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = updatePurchaseOrderSchema.parse(req.body);
+      const order = await purchasingService.updateDraft(String(req.params.id), input, req.user!.id, req);
+
+      res.json({ success: true, data: order });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /purchase-orders/:id
+purchaseOrders.delete(
+  '/:id',
+  authenticate,
+  requirePermission(asBuyer),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      await purchasingService.deleteDraft(String(req.params.id), req.user!.id, req);
+
+      res.json({ success: true, data: { message: 'Purchase order deleted' } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /purchase-orders/:id/send
+purchaseOrders.post(
+  '/:id/send',
+  authenticate,
+  requirePermission(asBuyer),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const order = await purchasingService.send(String(req.params.id), req.user!.id, req);
+
+      res.json({ success: true, data: order });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /purchase-orders/:id/confirm
+purchaseOrders.post(
+  '/:id/confirm',
+  authenticate,
+  requirePermission(asSupplier),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const order = await purchasingService.confirm(String(req.params.id), req.user!.id, req);
+
+      res.json({ success: true, data: order });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /purchase-orders/:id/deliveries
+purchaseOrders.post(
+  '/:id/deliveries',
+  authenticate,
+  requirePermission(asBuyer),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = recordDeliverySchema.parse(req.body);
+      const order = await purchasingService.recordDelivery(String(req.params.id), input, req.user!.id, req);
+
+      res.json({ success: true, data: order });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export const supplierRoutes = suppliers;
+export const purchaseOrderRoutes = purchaseOrders;
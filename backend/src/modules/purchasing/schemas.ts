@@ -0,0 +1,85 @@
+import { z } from 'zod';
+
+export const PURCHASE_ORDER_STATUSES = [
+  'DRAFT',
+  'SENT',
+  'CONFIRMED',
+  'PARTIALLY_DELIVERED',
+  'DELIVERED',
+] as const;
+
+export const createCatalogItemSchema = z.object({
+  code: z.string().trim().min(1).max(50),
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(2000).optional(),
+  category: z.string().max(100).optional(),
+  packSize: z.string().max(50).optional(),
+  unitsPerCase: z.number().int().positive(),
+  casesPerPallet: z.number().int().positive().optional(),
+  countryOfOrigin: z.string().max(100).optional(),
+  pricePerCase: z.number().positive(),
+});
+
+export const updateCatalogItemSchema = createCatalogItemSchema
+  .extend({
+    description: z.string().max(2000).nullable(),
+    category: z.string().max(100).nullable(),
+    packSize: z.string().max(50).nullable(),
+    casesPerPallet: z.number().int().positive().nullable(),
+    countryOfOrigin: z.string().max(100).nullable(),
+    isActive: z.boolean(),
+  })
+  .partial();
+
+const purchaseOrderLineSchema = z.object({
+  catalogItemId: z.string(),
+  cases: z.number().int().positive().max(10_000),
+});
+
+const purchaseOrderLinesSchema = z
+  .array(purchaseOrderLineSchema)
+  .min(1)
+  .max(500)
+  .refine((lines) => new Set(lines.map(({ catalogItemId }) => catalogItemId)).size === lines.length, {
+    message: 'Each catalog item can only appear once',
+  });
+
+export const createPurchaseOrderSchema = z.object({
+  buyerId: z.string(),
+  supplierId: z.string(),
+  lines: purchaseOrderLinesSchema,
+  notes: z.string().max(1000).optional(),
+});
+
+export const updatePurchaseOrderSchema = z.object({
+  lines: purchaseOrderLinesSchema.optional(),
+  notes: z.string().max(1000).nullable().optional(),
+});
+
+// Cases that arrived with one delivery, per line
+export const recordDeliverySchema = z.object({
+  lines: z
+    .array(z.object({ lineId: z.string(), cases: z.number().int().positive() }))
+    .min(1)
+    .refine((lines) => new Set(lines.map(({ lineId }) => lineId)).size === lines.length, {
+      message: 'Each line can only appear once',
+    }),
+});
+
+export const purchaseOrderQuerySchema = z.object({
+  status: z
+    .string()
+    .transform((value) => value.split(','))
+    .pipe(z.array(z.enum(PURCHASE_ORDER_STATUSES)))
+    .optional(),
+});
+
+export const orderSheetQuerySchema = z.object({
+  format: z.enum(['xlsx', 'csv']).default('xlsx'),
+});
+
+export type CreateCatalogItemInput = z.infer<typeof createCatalogItemSchema>;
+export type UpdateCatalogItemInput = z.infer<typeof updateCatalogItemSchema>;
+export type CreatePurchaseOrderInput = z.infer<typeof createPurchaseOrderSchema>;
+export type UpdatePurchaseOrderInput = z.infer<typeof updatePurchaseOrderSchema>;
+export type RecordDeliveryInput = z.infer<typeof recordDeliverySchema>;
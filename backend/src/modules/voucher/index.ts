@@ -0,0 +1,4 @@
+export { voucherRoutes } from './routes.js';
+export { voucherService, normalizeVoucherCode, voucherStatus } from './voucher.service.js';
+export { renderVoucherPdf, amountInWords } from './render.js';
+export * from './schemas.js';
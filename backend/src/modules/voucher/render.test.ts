@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { Prisma } from '@prisma/client';
+import { amountInWords } from './render.js';
+
+const inWords = (amount: string) => amountInWords(new Prisma.Decimal(amount));
+
+describe('amountInWords', () => {
+  it('writes whole euros', () => {
+    expect(inWords('1')).toBe('Ein Euro');
+    expect(inWords('21')).toBe('Einundzwanzig Euro');
+    expect(inWords('100')).toBe('Einhundert Euro');
+  });
+
+  it('adds cents when there are any', () => {
+    expect(inWords('25.50')).toBe('Fünfundzwanzig Euro fünfzig Cent');
+    expect(inWords('0.99')).toBe('Null Euro neunundneunzig Cent');
+  });
+
+  it('uses "ein" before the unit in compound numbers', () => {
+    expect(inWords('101')).toBe('Einhundertein Euro');
+    expect(inWords('1001.01')).toBe('Eintausendein Euro ein Cent');
+  });
+
+  it('handles thousands', () => {
+    expect(inWords('2350')).toBe('Zweitausenddreihundertfünfzig Euro');
+  });
+});
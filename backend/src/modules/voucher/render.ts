@@ -0,0 +1,120 @@
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import type { Prisma } from '@prisma/client';
+import { toZonedTime } from '../../shared/utils/index.js';
+
+const ONES = [
+  'null', 'eins', 'zwei', 'drei', 'vier', 'fünf', 'sechs', 'sieben', 'acht', 'neun', 'zehn',
+  'elf', 'zwölf', 'dreizehn', 'vierzehn', 'fünfzehn', 'sechzehn', 'siebzehn', 'achtzehn', 'neunzehn',
+];
+const TENS = ['', '', 'zwanzig', 'dreißig', 'vierzig', 'fünfzig', 'sechzig', 'siebzig', 'achtzig', 'neunzig'];
+
+function belowHundred(n: number): string {
+  if (n < 20) return ONES[n];
+  const unit = n % 10;
+  const tens = TENS[Math.floor(n / 10)];
+  return unit === 0 ? tens : `${unit === 1 ? 'ein' : ONES[unit]}und${tens}`;
+}
+
+function belowThousand(n: number): string {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  return (
+    (hundreds > 0 ? `${hundreds === 1 ? 'ein' : ONES[hundreds]}hundert` : '') +
+    (rest > 0 ? belowHundred(rest) : '')
+  );
+}
+
+function numberInWords(n: number): string {
+  if (n === 0) return 'null';
+  const thousands = Math.floor(n / 1000);
+  const rest = n % 1000;
+  const words =
+    (thousands > 0 ? `${thousands === 1 ? 'ein' : belowThousand(thousands)}tausend` : '') +
+    (rest > 0 ? belowThousand(rest) : '');
+  // "eins" only stands alone; before a unit it is "ein" (einundzwanzig, hundertein Euro)
+  return words.replace(/eins$/, 'ein');
+}
+
+// The "In Wort" line of the paper voucher, e.g. "Fünfundzwanzig Euro fünfzig Cent"
+export function amountInWords(amount: Prisma.Decimal): string {
+  const euros = Math.floor(amount.toNumber());
+  const cents = amount.sub(euros).mul(100).round().toNumber();
+  const words = `${numberInWords(euros)} Euro${cents > 0 ? ` ${numberInWords(cents)} Cent` : ''}`;
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export interface PrintableVoucher {
+  code: string;
+  initialValue: Prisma.Decimal | null;
+  recipientName: string | null;
+  message: string | null;
+  expiresAt: Date;
+  createdAt: Date;
+  organization: { name: string };
+  product: { name: string } | null;
+}
+
+const germanDate = (at: Date) => toZonedTime(at).date.split('-').reverse().join('.');
+
+// DIN long (DL) card modelled on the paper voucher: a coloured panel on the left, the
+// details on the right, and a QR code of the voucher code for the till to scan
+export async function renderVoucherPdf(voucher: PrintableVoucher): Promise<Buffer> {
+  const qr = await QRCode.toBuffer(voucher.code, { type: 'png', margin: 1, width: 240 });
+  const doc = new PDFDocument({ size: [595.28, 280.63], margin: 0 });
+  const chunks: Buffer[] = [];
+
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const panelWidth = doc.page.width * 0.45;
+  const left = panelWidth + 20;
+  const width = doc.page.width - left - 20;
+
+  doc.rect(0, 0, panelWidth, doc.page.height).fill('#2f5597');
+  doc.fillColor('#ffe600').font('Helvetica-BoldOblique').fontSize(40).text('Gutschein', 20, 50, {
+    width: panelWidth - 40,
+    align: 'center',
+  });
+  doc.fillColor('white').font('Helvetica').fontSize(14).text(voucher.organization.name, 20, 110, {
+    width: panelWidth - 40,
+    align: 'center',
+  });
+  doc.image(qr, (panelWidth - 100) / 2, 150, { width: 100 });
+
+  const field = (label: string, value: string, y: number) => {
+    doc.fillColor('black').font('Helvetica-Bold').fontSize(11).text(label, left, y);
+    doc.font('Helvetica').text(value || '_____________________', left + 95, y, { width: width - 95 });
+  };
+
+  field('Gutschein für:', voucher.recipientName ?? '', 24);
+  if (voucher.product) {
+    field('Einzulösen für:', voucher.product.name, 44);
+  } else {
+    field('Im Wert von:', `${voucher.initialValue!.toFixed(2).replace('.', ',')} €`, 44);
+    field('In Wort:', amountInWords(voucher.initialValue!), 64);
+  }
+  if (voucher.message) {
+    doc.font('Helvetica-Oblique').fontSize(10).text(voucher.message, left, 94, { width, height: 50, ellipsis: true });
+  }
+
+  doc.moveTo(left, 160).lineTo(left + width, 160).lineWidth(2).stroke('black');
+  doc.font('Helvetica-Bold').fontSize(10);
+  doc.text('DATUM', left, 168).font('Helvetica').text(germanDate(voucher.createdAt), left, 182);
+  doc.font('Helvetica-Bold').text('GÜLTIG BIS', left + 110, 168);
+  doc.font('Helvetica').text(germanDate(voucher.expiresAt), left + 110, 182);
+
+  doc.font('Courier-Bold').fontSize(13).text(voucher.code, left, 208, { width, align: 'center' });
+  doc.font('Helvetica').fontSize(8).text(
+    'Der Wert des Gutscheines kann nicht in Bargeld ausgezahlt werden.',
+    left,
+    234,
+    { width, align: 'center' }
+  );
+
+  doc.end();
+  return done;
+}
@@ -0,0 +1,170 @@
+import { Router } from 'express';
+import type { Response, NextFunction } from 'express';
+import { voucherService } from './voucher.service.js';
+import { renderVoucherPdf } from './render.js';
+import {
+  issueVoucherSchema,
+  redeemVoucherSchema,
+  voidVoucherSchema,
+  voucherListQuerySchema,
+} from './schemas.js';
+import {
+  authenticate,
+  requirePermission,
+  rateLimit,
+  RateLimitPolicies,
+  ScopeResolvers,
+  NotFoundError,
+} from '../../shared/middleware/index.js';
+import { prisma } from '../../config/index.js';
+import type { AuthenticatedRequest, ApiResponse, ScopeResolver } from '../../shared/types/index.js';
+
+// Issuing organization of the voucher in the :id route parameter
+const voucherFromParam: ScopeResolver = async (req) => {
+  const voucher = await prisma.voucher.findUnique({
+    where: { id: String(req.params.id) },
+    select: { organizationId: true },
+  });
+
+  if (!voucher) throw new NotFoundError('Voucher');
+
+  return { organizationId: voucher.organizationId };
+};
+
+const issueForVoucher = requirePermission({ permission: 'voucher.issue', resolve: voucherFromParam });
+const redeemAtSalesInstance = requirePermission({
+  permission: 'voucher.redeem',
+  resolve: ScopeResolvers.salesInstanceParam('id'),
+});
+
+const router = Router();
+
+// POST /vouchers
+router.post(
+  '/',
+  authenticate,
+  requirePermission({ permission: 'voucher.issue', resolve: ScopeResolvers.organizationBody() }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = issueVoucherSchema.parse(req.body);
+      const voucher = await voucherService.issue(input, req.user!.id, req);
+
+      res.status(201).json({ success: true, data: voucher });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /vouchers/organization/:organizationId
+router.get(
+  '/organization/:organizationId',
+  authenticate,
+  requirePermission({ permission: 'voucher.issue', resolve: ScopeResolvers.organizationParam('organizationId') }),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const { status } = voucherListQuerySchema.parse(req.query);
+      const vouchers = await voucherService.listForOrganization(String(req.params.organizationId), status);
+
+      res.json({ success: true, data: vouchers });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /vouchers/sales-instances/:id/codes/:code
+router.get(
+  '/sales-instances/:id/codes/:code',
+  authenticate,
+  rateLimit(RateLimitPolicies.voucherLookup),
+  redeemAtSalesInstance,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const voucher = await voucherService.lookup(String(req.params.id), String(req.params.code));
+
+      res.json({ success: true, data: voucher });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /vouchers/sales-instances/:id/codes/:code/redemptions
+router.post(
+  '/sales-instances/:id/codes/:code/redemptions',
+  authenticate,
+  rateLimit(RateLimitPolicies.voucherLookup),
+  redeemAtSalesInstance,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const input = redeemVoucherSchema.parse(req.body);
+      const result = await voucherService.redeem(
+        String(req.params.id),
+        String(req.params.code),
+        input,
+        req.user!.id,
+        req
+      );
+
+      res.status(201).json({ success: true, data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /vouchers/:id
+router.get(
+  '/:id',
+  authenticate,
+  issueForVoucher,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const voucher = await voucherService.getVoucher(String(req.params.id));
+
+      res.json({ success: true, data: voucher });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /vouchers/:id/print
+router.get(
+  '/:id/print',
+  authenticate,
+  issueForVoucher,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const voucher = await voucherService.getVoucher(String(req.params.id));
+      const pdf = await renderVoucherPdf(voucher);
+
+      res
+        .type('pdf')
+        .setHeader('Content-Disposition', `inline; filename="gutschein-${voucher.id}.pdf"`)
+        .send(pdf);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /vouchers/:id/void
+router.post(
+  '/:id/void',
+  authenticate,
+  issueForVoucher,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const { reason } = voidVoucherSchema.parse(req.body);
+      const voucher = await voucherService.void(String(req.params.id), reason, req.user!.id, req);
+
+      res.json({ success: true, data: voucher });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export const voucherRoutes = router;
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+export const issueVoucherSchema = z
+  .object({
+    organizationId: z.string(),
+    type: z.enum(['VALUE', 'PRODUCT']),
+    value: z.number().positive().max(10_000).optional(),
+    productId: z.string().optional(),
+    recipientName: z.string().max(100).optional(),
+    message: z.string().max(300).optional(),
+    expiresAt: z.string().datetime({ offset: true }).optional(),
+  })
+  .refine((input) => (input.type === 'VALUE' ? input.value !== undefined : input.productId !== undefined), {
+    message: 'Value vouchers need a value, product vouchers a productId',
+    path: ['type'],
+  });
+
+// amount is only used for value vouchers; product vouchers are redeemed whole
+export const redeemVoucherSchema = z.object({
+  amount: z.number().positive().max(10_000).optional(),
+  note: z.string().max(200).optional(),
+});
+
+export const voidVoucherSchema = z.object({
+  reason: z.string().min(1).max(200),
+});
+
+export const voucherListQuerySchema = z.object({
+  status: z.enum(['active', 'redeemed', 'expired', 'voided']).optional(),
+});
+
+export type IssueVoucherInput = z.infer<typeof issueVoucherSchema>;
+export type RedeemVoucherInput = z.infer<typeof redeemVoucherSchema>;
+export type VoucherStatus = NonNullable<z.infer<typeof voucherListQuerySchema>['status']>;
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeVoucherCode, voucherStatus } from './voucher.service.js';
+import type { Voucher } from '@prisma/client';
+
+describe('normalizeVoucherCode', () => {
+  it('groups codes typed in lowercase or with spaces', () => {
+    expect(normalizeVoucherCode('ab12 cd34ef56gh78')).toBe('AB12-CD34-EF56-GH78');
+    expect(normalizeVoucherCode(' AB12-CD34-EF56-GH78 ')).toBe('AB12-CD34-EF56-GH78');
+  });
+
+  it('reads look-alike letters as digits', () => {
+    expect(normalizeVoucherCode('oOiI-lL00')).toBe('0011-1100');
+  });
+
+  it('leaves nothing of input without letters or digits', () => {
+    expect(normalizeVoucherCode(' - ')).toBe('');
+  });
+});
+
+describe('voucherStatus', () => {
+  const now = new Date('2026-10-19T10:00:00Z');
+  const voucher = {
+    voidedAt: null,
+    redeemedAt: null,
+    expiresAt: new Date('2029-12-31T22:59:00Z'),
+  } as Voucher;
+
+  it('prefers voided over redeemed over expired', () => {
+    const past = new Date('2026-01-01T00:00:00Z');
+    expect(voucherStatus(voucher, now)).toBe('active');
+    expect(voucherStatus({ ...voucher, expiresAt: past }, now)).toBe('expired');
+    expect(voucherStatus({ ...voucher, expiresAt: past, redeemedAt: past }, now)).toBe('redeemed');
+    expect(voucherStatus({ ...voucher, expiresAt: past, redeemedAt: past, voidedAt: past }, now)).toBe('voided');
+  });
+});
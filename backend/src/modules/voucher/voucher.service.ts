@@ -0,0 +1,313 @@
+import { randomBytes } from 'node:crypto';
+import { Prisma, VoucherType, VoucherEntryType } from '@prisma/client';
+import type { Voucher } from '@prisma/client';
+import { prisma } from '../../config/index.js';
+import {
+  createAuditLog,
+  AuditActions,
+  toZonedTime,
+  fromZonedTime,
+} from '../../shared/utils/index.js';
+import { NotFoundError, ValidationError, ConflictError } from '../../shared/middleware/index.js';
+import { applyProductPrices } from '../product/index.js';
+import type { IssueVoucherInput, RedeemVoucherInput, VoucherStatus } from './schemas.js';
+import type { AuthenticatedRequest } from '../../shared/types/index.js';
+
+// Crockford base32: no I, L, O or U, so codes survive being read aloud or typed from paper
+const CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+// 80 random bits as XXXX-XXXX-XXXX-XXXX
+function generateVoucherCode(): string {
+  const bytes = randomBytes(10);
+  let bits = 0n;
+  for (const byte of bytes) bits = (bits << 8n) | BigInt(byte);
+
+  let code = '';
+  for (let i = 0; i < 16; i++) {
+    code = CODE_ALPHABET[Number(bits & 31n)] + code;
+    bits >>= 5n;
+  }
+
+  return code.match(/.{4}/g)!.join('-');
+}
+
+// Accepts codes typed with lowercase, spaces or the look-alike letters Crockford maps
+export function normalizeVoucherCode(input: string): string {
+  const compact = input
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+
+  return compact.match(/.{1,4}/g)?.join('-') ?? '';
+}
+
+// Claims on vouchers lapse with the regular three-year limitation period, which runs
+// to the end of the year (§§ 195, 199 BGB)
+function defaultExpiry(issuedAt: Date): Date {
+  const year = Number(toZonedTime(issuedAt).date.slice(0, 4));
+  return fromZonedTime(`${year + 3}-12-31`, 24 * 60 - 1);
+}
+
+export function voucherStatus(voucher: Voucher, now = new Date()): VoucherStatus {
+  if (voucher.voidedAt) return 'voided';
+  if (voucher.redeemedAt) return 'redeemed';
+  if (voucher.expiresAt <= now) return 'expired';
+  return 'active';
+}
+
+function statusFilter(status: VoucherStatus, now: Date): Prisma.VoucherWhereInput {
+  switch (status) {
+    case 'voided':
+      return { voidedAt: { not: null } };
+    case 'redeemed':
+      return { voidedAt: null, redeemedAt: { not: null } };
+    case 'expired':
+      return { voidedAt: null, redeemedAt: null, expiresAt: { lte: now } };
+    case 'active':
+      return { voidedAt: null, redeemedAt: null, expiresAt: { gt: now } };
+  }
+}
+
+const voucherInclude = {
+  organization: { select: { id: true, name: true } },
+  product: { select: { id: true, name: true } },
+};
+
+function withStatus<T extends Voucher>(voucher: T) {
+  return { ...voucher, status: voucherStatus(voucher) };
+}
+
+async function currentProductPrice(productId: string) {
+  const product = await prisma.product.findUniqueOrThrow({ where: { id: productId } });
+  const [priced] = await applyProductPrices([product]);
+  return priced.price;
+}
+
+// What a voucher was sold for. Product vouchers are redeemed at that amount, so the
+// ledger balances even when the product's price has changed since.
+async function issuedAmount(voucherId: string) {
+  const issue = await prisma.voucherEntry.findFirstOrThrow({
+    where: { voucherId, type: VoucherEntryType.ISSUE },
+  });
+  return issue.amount;
+}
+
+export class VoucherService {
+  async issue(input: IssueVoucherInput, userId: string, req?: AuthenticatedRequest) {
+    const organization = await prisma.organization.findUnique({ where: { id: input.organizationId } });
+    if (!organization) throw new NotFoundError('Organization');
+
+    const now = new Date();
+    const expiresAt = input.expiresAt ? new Date(input.expiresAt) : defaultExpiry(now);
+    if (expiresAt <= now) throw new ValidationError('The expiry date must be in the future');
+
+    let issueAmount: Prisma.Decimal;
+    if (input.type === VoucherType.PRODUCT) {
+      const product = await prisma.product.findUnique({ where: { id: input.productId } });
+      if (!product || product.archivedAt) throw new NotFoundError('Product');
+      // Recorded at the price it was sold for
+      issueAmount = await currentProductPrice(product.id);
+    } else {
+      issueAmount = new Prisma.Decimal(input.value!);
+    }
+
+    const value = input.type === VoucherType.VALUE ? issueAmount : null;
+    const voucher = await prisma.voucher.create({
+      data: {
+        organizationId: organization.id,
+        code: generateVoucherCode(),
+        type: input.type,
+        initialValue: value,
+        balance: value,
+        productId: input.type === VoucherType.PRODUCT ? input.productId : null,
+        recipientName: input.recipientName,
+        message: input.message,
+        expiresAt,
+        issuedBy: userId,
+        entries: {
+          create: { type: VoucherEntryType.ISSUE, amount: issueAmount, balanceAfter: value, createdBy: userId },
+        },
+      },
+      include: voucherInclude,
+    });
+
+    // The code is a bearer value and stays out of the audit trail
+    await createAuditLog({
+      userId,
+      action: AuditActions.VOUCHER_ISSUE,
+      resource: 'voucher',
+      resourceId: voucher.id,
+      metadata: {
+        organizationId: organization.id,
+        type: voucher.type,
+        amount: issueAmount.toString(),
+        ...(voucher.productId && { productId: voucher.productId }),
+        expiresAt: expiresAt.toISOString(),
+      },
+      req,
+    });
+
+    return withStatus(voucher);
+  }
+
+  async listForOrganization(organizationId: string, status?: VoucherStatus) {
+    const vouchers = await prisma.voucher.findMany({
+      where: { organizationId, ...(status && statusFilter(status, new Date())) },
+      include: voucherInclude,
+      orderBy: { createdAt: 'desc' },
+      take: 500,
+    });
+
+    return vouchers.map(withStatus);
+  }
+
+  async getVoucher(voucherId: string) {
+    const voucher = await prisma.voucher.findUnique({
+      where: { id: voucherId },
+      include: {
+        ...voucherInclude,
+        entries: {
+          include: { salesInstance: { select: { id: true, name: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+    if (!voucher) throw new NotFoundError('Voucher');
+
+    return withStatus(voucher);
+  }
+
+  // A voucher as seen from one of the franchise's sales instances; other franchises'
+  // vouchers do not exist there
+  async lookup(salesInstanceId: string, code: string) {
+    const salesInstance = await prisma.salesInstance.findUnique({ where: { id: salesInstanceId } });
+    if (!salesInstance) throw new NotFoundError('Sales instance');
+
+    const voucher = await prisma.voucher.findUnique({
+      where: { code: normalizeVoucherCode(code) },
+      include: voucherInclude,
+    });
+    if (!voucher || voucher.organizationId !== salesInstance.organizationId) {
+      throw new NotFoundError('Voucher');
+    }
+
+    return withStatus(voucher);
+  }
+
+  async redeem(
+    salesInstanceId: string,
+    code: string,
+    input: RedeemVoucherInput,
+    userId: string,
+    req?: AuthenticatedRequest
+  ) {
+    const voucher = await this.lookup(salesInstanceId, code);
+    if (voucher.status !== 'active') {
+      throw new ConflictError(`The voucher is ${voucher.status}`);
+    }
+
+    if (voucher.type === VoucherType.VALUE && input.amount === undefined) {
+      throw new ValidationError('Give the amount to redeem');
+    }
+    if (voucher.type === VoucherType.PRODUCT && input.amount !== undefined) {
+      throw new ValidationError('Product vouchers are redeemed whole');
+    }
+
+    const now = new Date();
+    const redeemable = { id: voucher.id, voidedAt: null, redeemedAt: null, expiresAt: { gt: now } };
+    const amount =
+      voucher.type === VoucherType.VALUE
+        ? new Prisma.Decimal(input.amount!)
+        : await issuedAmount(voucher.id);
+
+    const entry = await prisma.$transaction(async (tx) => {
+      let balanceAfter: Prisma.Decimal | null = null;
+
+      if (voucher.type === VoucherType.VALUE) {
+        // Guarded so two tills cannot spend the same balance
+        const { count } = await tx.voucher.updateMany({
+          where: { ...redeemable, balance: { gte: amount } },
+          data: { balance: { decrement: amount } },
+        });
+        if (count === 0) throw new ConflictError('The amount exceeds the voucher balance');
+
+        const updated = await tx.voucher.findUniqueOrThrow({ where: { id: voucher.id } });
+        balanceAfter = updated.balance;
+        if (balanceAfter!.isZero()) {
+          await tx.voucher.update({ where: { id: voucher.id }, data: { redeemedAt: now } });
+        }
+      } else {
+        const { count } = await tx.voucher.updateMany({ where: redeemable, data: { redeemedAt: now } });
+        if (count === 0) throw new ConflictError('The voucher has already been redeemed');
+      }
+
+      return tx.voucherEntry.create({
+        data: {
+          voucherId: voucher.id,
+          type: VoucherEntryType.REDEMPTION,
+          amount: amount.neg(),
+          balanceAfter,
+          salesInstanceId,
+          note: input.note,
+          createdBy: userId,
+        },
+      });
+    });
+
+    await createAuditLog({
+      userId,
+      action: AuditActions.VOUCHER_REDEEM,
+      resource: 'voucher',
+      resourceId: voucher.id,
+      metadata: {
+        salesInstanceId,
+        amount: amount.toString(),
+        balanceAfter: entry.balanceAfter?.toString() ?? null,
+      },
+      req,
+    });
+
+    return { voucher: await this.getVoucher(voucher.id), entry };
+  }
+
+  // Takes a voucher out of circulation, e.g. when it was lost or refunded
+  async void(voucherId: string, reason: string, userId: string, req?: AuthenticatedRequest) {
+    const voucher = await prisma.$transaction(async (tx) => {
+      const current = await tx.voucher.findUnique({ where: { id: voucherId } });
+      if (!current) throw new NotFoundError('Voucher');
+
+      const { count } = await tx.voucher.updateMany({
+        where: { id: current.id, voidedAt: null, redeemedAt: null },
+        data: { voidedAt: new Date(), ...(current.balance && { balance: 0 }) },
+      });
+      if (count === 0) throw new ConflictError(`The voucher is ${voucherStatus(current)}`);
+
+      await tx.voucherEntry.create({
+        data: {
+          voucherId: current.id,
+          type: VoucherEntryType.VOID,
+          amount: current.balance?.neg() ?? 0,
+          balanceAfter: current.balance ? 0 : null,
+          note: reason,
+          createdBy: userId,
+        },
+      });
+
+      return current;
+    });
+
+    await createAuditLog({
+      userId,
+      action: AuditActions.VOUCHER_VOID,
+      resource: 'voucher',
+      resourceId: voucher.id,
+      metadata: { reason, balance: voucher.balance?.toString() ?? null },
+      req,
+    });
+
+    return this.getVoucher(voucher.id);
+  }
+}
+
+export const voucherService = new VoucherService();
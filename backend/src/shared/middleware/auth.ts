@@ -2,13 +2,26 @@ import type { Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { prisma, env } from '../../config/index.js';
 import { UnauthorizedError, ForbiddenError } from './error-handler.js';
-import type { AuthenticatedRequest, AuthenticatedUser, PermissionCheck } from '../types/index.js';
+import { consumeRateLimit, RateLimitPolicies } from './rate-limit.js';
+import type {
+  AuthenticatedRequest,
+  AuthenticatedUser,
+  AuthenticatedClient,
+  PermissionCheck,
+  ScopeTarget,
+} from '../types/index.js';
 
 interface JwtPayload {
   userId: string;
   sessionId: string;
 }
 
+export interface ClientJwtPayload {
+  sub: string; // ApiClient.id
+  typ: 'client';
+  scope: string[];
+}
+
 export async function authenticate(
   req: AuthenticatedRequest,
   _res: Response,
@@ -30,6 +43,10 @@ export async function authenticate(
       throw new UnauthorizedError('Invalid or expired token');
     }
 
+    if (!payload.sessionId) {
+      throw new UnauthorizedError('Invalid or expired token');
+    }
+
     // Get session from database
     const session = await prisma.session.findUnique({
       where: { id: payload.sessionId },
@@ -67,10 +84,12 @@ export async function authenticate(
     const authenticatedUser: AuthenticatedUser = {
       id: session.user.id,
       email: session.user.email,
+      emailVerified: session.user.emailVerified,
       sessionId: session.id,
       roles: session.user.roleAssignments.map((ra) => ({
         role: ra.role,
         organizationId: ra.organizationId,
+        salesInstanceId: ra.salesInstanceId,
         permissions: ra.role.permissions.map((rp) => ({
           permission: rp.permission,
           scope: rp.scope?.name ?? null,
@@ -88,6 +107,180 @@ export async function authenticate(
   }
 }
 
+export async function authenticateClient(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+
+    if (scheme !== 'Bearer' || !token) {
+      throw new UnauthorizedError('No bearer token provided');
+    }
+
+    let payload: ClientJwtPayload;
+    try {
+      payload = jwt.verify(token, env.JWT_SECRET) as ClientJwtPayload;
+    } catch {
+      throw new UnauthorizedError('Invalid or expired token');
+    }
+
+    if (payload.typ !== 'client') {
+      throw new UnauthorizedError('Invalid or expired token');
+    }
+
+    // Re-read the client so revocations and permission changes apply immediately
+    const client = await prisma.apiClient.findUnique({
+      where: { id: payload.sub },
+      include: { organization: { select: { isActive: true } } },
+    });
+
+    if (!client || !client.isActive || !client.organization.isActive) {
+      throw new UnauthorizedError('Client is deactivated');
+    }
+
+    const authenticatedClient: AuthenticatedClient = {
+      id: client.id,
+      clientId: client.clientId,
+      name: client.name,
+      organizationId: client.organizationId,
+      permissions: payload.scope.filter((name) => client.permissions.includes(name)),
+      rateLimit: client.rateLimit,
+    };
+
+    req.apiClient = authenticatedClient;
+
+    // Enforce the per-client hourly quota
+    await consumeRateLimit(RateLimitPolicies.apiClient, req, res);
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// For public routes that personalize their response for signed-in users;
+// a missing or stale session cookie leaves the request anonymous
+export function optionalAuthenticate(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  if (!req.cookies?.auth_token) {
+    next();
+    return Promise.resolve();
+  }
+
+  return authenticate(req, res, (error?: unknown) => {
+    if (error instanceof UnauthorizedError) {
+      next();
+      return;
+    }
+    next(error);
+  });
+}
+
+// For routes open to both browser sessions and API clients
+export function authenticateUserOrClient(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  if (req.headers.authorization?.startsWith('Bearer ')) {
+    return authenticateClient(req, res, next);
+  }
+  return authenticate(req, res, next);
+}
+
+// Unscoped grants on an organization role are limited to that organization;
+// unscoped grants on a global role (consumer, super admin) apply everywhere
+function effectiveScope(scope: string | null, organizationId: string | null): string {
+  return scope ?? (organizationId ? 'own_organization' : 'public');
+}
+
+function scopeCovers(
+  scope: string,
+  assignment: AuthenticatedUser['roles'][number],
+  userId: string,
+  target?: ScopeTarget
+): boolean {
+  // Without a target (e.g. creating a top-level resource) any grant applies
+  if (!target) return true;
+
+  switch (scope) {
+    case 'public':
+    case 'anonymized':
+      return true;
+    case 'own_organization':
+      return !!target.organizationId && target.organizationId === assignment.organizationId;
+    case 'own_location':
+      return !!target.salesInstanceId && target.salesInstanceId === assignment.salesInstanceId;
+    case 'self':
+      return !!target.userId && target.userId === userId;
+    default:
+      return false;
+  }
+}
+
+export function clientHasPermission(
+  client: AuthenticatedClient,
+  check: PermissionCheck,
+  target?: ScopeTarget
+): boolean {
+  // API clients always act within their own organization
+  if (check.organizationId && check.organizationId !== client.organizationId) {
+    return false;
+  }
+
+  if (check.scope && check.scope !== 'own_organization') {
+    return false;
+  }
+
+  if (target && target.organizationId !== client.organizationId) {
+    return false;
+  }
+
+  return client.permissions.includes(check.permission);
+}
+
+// Returns how far the user's grants cover the check: fully, only anonymized, or not at all
+export function resolveGrant(
+  user: AuthenticatedUser,
+  check: PermissionCheck,
+  target?: ScopeTarget
+): 'full' | 'anonymized' | null {
+  let grant: 'anonymized' | null = null;
+
+  for (const roleAssignment of user.roles) {
+    // Check organization context if required
+    if (check.organizationId && roleAssignment.organizationId !== check.organizationId) {
+      continue;
+    }
+
+    for (const perm of roleAssignment.permissions) {
+      if (perm.permission.name !== check.permission) continue;
+      if (check.scope && perm.scope !== check.scope) continue;
+
+      const scope = effectiveScope(perm.scope, roleAssignment.organizationId);
+      if (!scopeCovers(scope, roleAssignment, user.id, target)) continue;
+
+      if (scope !== 'anonymized') return 'full';
+      grant = 'anonymized';
+    }
+  }
+
+  return grant;
+}
+
+export function hasPermission(
+  user: AuthenticatedUser,
+  check: PermissionCheck,
+  target?: ScopeTarget
+): boolean {
+  return resolveGrant(user, check, target) !== null;
+}
+
 export function requirePermission(...checks: PermissionCheck[]) {
   return async (
     req: AuthenticatedRequest,
@@ -95,30 +288,48 @@ export function requirePermission(...checks: PermissionCheck[]) {
     next: NextFunction
   ): Promise<void> => {
     try {
-      if (!req.user) {
+      const client = req.apiClient;
+      const user = req.user;
+
+      if (!client && !user) {
         throw new UnauthorizedError('Authentication required');
       }
 
-      const hasPermission = checks.some((check) => {
-        return req.user!.roles.some((roleAssignment) => {
-          // Check organization context if required
-          if (check.organizationId && roleAssignment.organizationId !== check.organizationId) {
-            return false;
-          }
-
-          // Check if role has the required permission
-          return roleAssignment.permissions.some((perm) => {
-            const permissionMatch = perm.permission.name === check.permission;
-            const scopeMatch = !check.scope || perm.scope === check.scope;
-            return permissionMatch && scopeMatch;
-          });
-        });
-      });
-
-      if (!hasPermission) {
+      const holds = (check: PermissionCheck, target?: ScopeTarget) =>
+        client ? clientHasPermission(client, check, target) : hasPermission(user!, check, target);
+
+      // Reject callers lacking the permission outright before loading any resource
+      if (!checks.some((check) => holds(check))) {
         throw new ForbiddenError('Insufficient permissions');
       }
 
+      const targets = new Map<PermissionCheck['resolve'], ScopeTarget>();
+      let granted: 'full' | 'anonymized' | null = null;
+
+      for (const check of checks) {
+        let target: ScopeTarget | undefined;
+        if (check.resolve) {
+          target = targets.get(check.resolve) ?? (await check.resolve(req));
+          targets.set(check.resolve, target);
+        }
+
+        const result = client
+          ? (clientHasPermission(client, check, target) ? 'full' : null)
+          : resolveGrant(user!, check, target);
+
+        if (result === 'full') {
+          granted = 'full';
+          break;
+        }
+        granted = granted ?? result;
+      }
+
+      if (!granted) {
+        throw new ForbiddenError('Insufficient permissions');
+      }
+
+      req.anonymized = granted === 'anonymized';
+
       next();
     } catch (error) {
       next(error);
@@ -150,6 +361,24 @@ export function requireRole(...roleNames: string[]) {
   };
 }
 
+export function requireVerifiedEmail(
+  req: AuthenticatedRequest,
+  _res: Response,
+  next: NextFunction
+): void {
+  if (!req.user) {
+    next(new UnauthorizedError('Authentication required'));
+    return;
+  }
+
+  if (!req.user.emailVerified) {
+    next(new ForbiddenError('Email address must be verified'));
+    return;
+  }
+
+  next();
+}
+
 export function verifyCsrf(
   req: AuthenticatedRequest,
   _res: Response,
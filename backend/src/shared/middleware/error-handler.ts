@@ -45,6 +45,12 @@ export class ConflictError extends AppError {
   }
 }
 
+export class TooManyRequestsError extends AppError {
+  constructor(message = 'Too many requests', public retryAfterSeconds?: number) {
+    super(429, 'TOO_MANY_REQUESTS', message, retryAfterSeconds ? { retryAfterSeconds } : undefined);
+  }
+}
+
 export function errorHandler(
   err: Error,
   _req: Request,
@@ -71,6 +77,10 @@ export function errorHandler(
 
   // Handle custom AppError
   if (err instanceof AppError) {
+    if (err instanceof TooManyRequestsError && err.retryAfterSeconds) {
+      res.setHeader('Retry-After', String(err.retryAfterSeconds));
+    }
+
     res.status(err.statusCode).json({
       success: false,
       error: {
@@ -6,11 +6,31 @@ export {
   NotFoundError, 
   ValidationError,
   ConflictError,
+  TooManyRequestsError,
 } from './error-handler.js';
 
 export { 
   authenticate, 
+  authenticateClient,
+  authenticateUserOrClient,
+  optionalAuthenticate,
+  hasPermission,
+  resolveGrant,
+  clientHasPermission,
   requirePermission, 
   requireRole,
+  requireVerifiedEmail,
   verifyCsrf,
 } from './auth.js';
+
+export { ScopeResolvers, salesInstanceTarget } from './scope.js';
+
+export {
+  rateLimit,
+  consumeRateLimit,
+  setRateLimitStore,
+  RateLimitPolicies,
+  MemoryRateLimitStore,
+  PostgresRateLimitStore,
+} from './rate-limit.js';
+export type { RateLimitPolicy, RateLimitStore, RateLimitHit } from './rate-limit.js';
@@ -0,0 +1,201 @@
+import type { Response, NextFunction } from 'express';
+import { prisma, env } from '../../config/index.js';
+import { TooManyRequestsError } from './error-handler.js';
+import type { AuthenticatedRequest } from '../types/index.js';
+
+export interface RateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+export interface RateLimitStore {
+  // Counts one request against the key and returns the state of the current window
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+export interface RateLimitPolicy {
+  name: string;
+  windowMs: number;
+  limit: number | ((req: AuthenticatedRequest) => number);
+  // Returns null to skip the policy for this request
+  key: (req: AuthenticatedRequest) => string | null;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, RateLimitHit>();
+  private hitsSincePrune = 0;
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    this.pruneExpired(now);
+
+    const bucket = this.buckets.get(key);
+    if (!bucket || bucket.resetAt.getTime() <= now) {
+      const fresh = { count: 1, resetAt: new Date(now + windowMs) };
+      this.buckets.set(key, fresh);
+      return { ...fresh };
+    }
+
+    bucket.count += 1;
+    return { ...bucket };
+  }
+
+  private pruneExpired(now: number): void {
+    if (++this.hitsSincePrune < 1000) return;
+    this.hitsSincePrune = 0;
+
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.resetAt.getTime() <= now) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+// Shares counters between nodes through the rate_limit_buckets table
+export class PostgresRateLimitStore implements RateLimitStore {
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const resetAt = new Date(Date.now() + windowMs);
+
+    // Single atomic upsert: start a new window when the old one has expired
+    const [row] = await prisma.$queryRaw<Array<{ count: number; reset_at: Date }>>`
+      INSERT INTO rate_limit_buckets (key, count, reset_at)
+      VALUES (${key}, 1, ${resetAt})
+      ON CONFLICT (key) DO UPDATE SET
+        count = CASE WHEN rate_limit_buckets.reset_at <= now() THEN 1 ELSE rate_limit_buckets.count + 1 END,
+        reset_at = CASE WHEN rate_limit_buckets.reset_at <= now() THEN EXCLUDED.reset_at ELSE rate_limit_buckets.reset_at END
+      RETURNING count, reset_at
+    `;
+
+    // Opportunistic cleanup of stale buckets
+    if (Math.random() < 0.01) {
+      await prisma.rateLimitBucket.deleteMany({ where: { resetAt: { lt: new Date() } } });
+    }
+
+    return { count: Number(row.count), resetAt: row.reset_at };
+  }
+}
+
+let store: RateLimitStore =
+  env.RATE_LIMIT_STORE === 'postgres' ? new PostgresRateLimitStore() : new MemoryRateLimitStore();
+
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+// Counts the request against the policy, sets X-RateLimit-* headers and throws when exceeded
+export async function consumeRateLimit(
+  policy: RateLimitPolicy,
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const key = policy.key(req);
+  if (key === null) return;
+
+  const limit = typeof policy.limit === 'function' ? policy.limit(req) : policy.limit;
+  const hit = await store.increment(`${policy.name}:${key}`, policy.windowMs);
+  const resetSeconds = Math.ceil(hit.resetAt.getTime() / 1000);
+
+  res.setHeader('X-RateLimit-Limit', String(limit));
+  res.setHeader('X-RateLimit-Remaining', String(Math.max(0, limit - hit.count)));
+  res.setHeader('X-RateLimit-Reset', String(resetSeconds));
+
+  if (hit.count > limit) {
+    const retryAfter = Math.max(1, resetSeconds - Math.floor(Date.now() / 1000));
+    throw new TooManyRequestsError('Rate limit exceeded, please try again later', retryAfter);
+  }
+}
+
+export function rateLimit(...policies: RateLimitPolicy[]) {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      for (const policy of policies) {
+        await consumeRateLimit(policy, req, res);
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+function clientIp(req: AuthenticatedRequest): string {
+  return req.ip ?? 'unknown';
+}
+
+function bodyEmail(req: AuthenticatedRequest): string | null {
+  const email = req.body?.email;
+  return typeof email === 'string' ? email.toLowerCase() : null;
+}
+
+export const RateLimitPolicies = {
+  // Baseline for every API request, keyed by IP
+  api: {
+    name: 'api',
+    windowMs: MINUTE,
+    limit: 300,
+    key: clientIp,
+  },
+  login: {
+    name: 'login',
+    windowMs: 15 * MINUTE,
+    limit: 20,
+    key: clientIp,
+  },
+  // Slows down distributed guessing against a single account
+  loginAccount: {
+    name: 'login-account',
+    windowMs: 15 * MINUTE,
+    limit: 10,
+    key: bodyEmail,
+  },
+  register: {
+    name: 'register',
+    windowMs: HOUR,
+    limit: 10,
+    key: clientIp,
+  },
+  passwordResetRequest: {
+    name: 'password-reset-request',
+    windowMs: HOUR,
+    limit: 5,
+    key: clientIp,
+  },
+  // Separate bucket so failed confirmations do not block asking for a new link
+  passwordResetConfirm: {
+    name: 'password-reset-confirm',
+    windowMs: 15 * MINUTE,
+    limit: 10,
+    key: clientIp,
+  },
+  // Voucher codes are bearer values; limits guessing by a compromised operator account
+  voucherLookup: {
+    name: 'voucher-lookup',
+    windowMs: 15 * MINUTE,
+    limit: 60,
+    key: (req) => req.user?.id ?? null,
+  },
+  // Exports read everything linked to the account and are rarely needed twice
+  dataExport: {
+    name: 'data-export',
+    windowMs: HOUR,
+    limit: 5,
+    key: (req) => req.user?.id ?? null,
+  },
+  clientToken: {
+    name: 'client-token',
+    windowMs: 15 * MINUTE,
+    limit: 30,
+    key: clientIp,
+  },
+  // ApiClient.rateLimit is requests per hour
+  apiClient: {
+    name: 'api-client',
+    windowMs: HOUR,
+    limit: (req) => req.apiClient?.rateLimit ?? 0,
+    key: (req) => req.apiClient?.id ?? null,
+  },
+} satisfies Record<string, RateLimitPolicy>;
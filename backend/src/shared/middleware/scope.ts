@@ -0,0 +1,46 @@
+import { prisma } from '../../config/index.js';
+import { NotFoundError } from './error-handler.js';
+import type { ScopeResolver, ScopeTarget } from '../types/index.js';
+
+export async function salesInstanceTarget(salesInstanceId: string): Promise<ScopeTarget> {
+  const instance = await prisma.salesInstance.findUnique({
+    where: { id: salesInstanceId },
+    select: { id: true, organizationId: true },
+  });
+
+  if (!instance) throw new NotFoundError('Sales instance');
+
+  return { organizationId: instance.organizationId, salesInstanceId: instance.id };
+}
+
+// Common resolvers for requirePermission({ permission, resolve })
+export const ScopeResolvers = {
+  // Organization id taken from a route parameter, e.g. /organizations/:id
+  organizationParam: (param = 'id'): ScopeResolver => async (req) => ({
+    organizationId: String(req.params[param]),
+  }),
+
+  // Organization id taken from the request body, e.g. when creating a resource for an org
+  organizationBody: (field = 'organizationId'): ScopeResolver => async (req) => {
+    const value = req.body?.[field];
+    return { organizationId: typeof value === 'string' ? value : null };
+  },
+
+  // Organization that owns the sales instance in a route parameter
+  salesInstanceParam: (param = 'id'): ScopeResolver => async (req) =>
+    salesInstanceTarget(String(req.params[param])),
+
+  // Organization that owns the sales instance referenced in the request body
+  salesInstanceBody: (field = 'salesInstanceId'): ScopeResolver => async (req) => {
+    const value = req.body?.[field];
+    if (typeof value !== 'string') return { organizationId: null };
+    return salesInstanceTarget(value);
+  },
+
+  // The caller's own user record
+  self: (): ScopeResolver => async (req) => ({ userId: req.user?.id ?? null }),
+
+  // Shared resources no organization owns, e.g. the product catalogue; only
+  // unscoped grants such as the super admin's cover them
+  global: (): ScopeResolver => async () => ({ organizationId: null }),
+};
@@ -4,10 +4,12 @@ import type { User, Session, Role, Permission, Organization } from '@prisma/clie
 export interface AuthenticatedUser {
   id: string;
   email: string;
+  emailVerified: boolean;
   sessionId: string;
   roles: Array<{
     role: Role;
     organizationId: string | null;
+    salesInstanceId: string | null;
     permissions: Array<{
       permission: Permission;
       scope: string | null;
@@ -15,10 +17,23 @@ export interface AuthenticatedUser {
   }>;
 }
 
+// Machine-to-machine principal resolved from a client-credentials bearer token
+export interface AuthenticatedClient {
+  id: string;
+  clientId: string;
+  name: string;
+  organizationId: string;
+  permissions: string[];
+  rateLimit: number;
+}
+
 export interface AuthenticatedRequest extends Request {
   user?: AuthenticatedUser;
+  apiClient?: AuthenticatedClient;
   session?: Session;
   csrfToken?: string;
+  // Set by requirePermission when access was granted only through an "anonymized" scope
+  anonymized?: boolean;
 }
 
 export interface ApiResponse<T = unknown> {
@@ -43,8 +58,19 @@ export interface PaginationParams {
   sortOrder?: 'asc' | 'desc';
 }
 
+// The resource a request acts on, as seen by scope checks
+export interface ScopeTarget {
+  organizationId?: string | null;
+  salesInstanceId?: string | null;
+  userId?: string | null;
+}
+
+export type ScopeResolver = (req: AuthenticatedRequest) => Promise<ScopeTarget>;
+
 export interface PermissionCheck {
   permission: string;
   scope?: string;
   organizationId?: string;
+  // Loads the target resource so scoped grants can be checked against it
+  resolve?: ScopeResolver;
 }
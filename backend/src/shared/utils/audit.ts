@@ -13,13 +13,16 @@ interface AuditLogParams {
 export async function createAuditLog(params: AuditLogParams): Promise<void> {
   const { userId, action, resource, resourceId, metadata, req } = params;
 
+  // Actions taken with client credentials have no user; record the client instead
+  const apiClientId = req?.apiClient?.id;
+
   await prisma.auditLog.create({
     data: {
       userId,
       action,
       resource,
       resourceId,
-      metadata: metadata ?? undefined,
+      metadata: apiClientId ? { ...metadata, apiClientId } : metadata ?? undefined,
       ipAddress: req?.ip ?? null,
       userAgent: req?.headers['user-agent'] ?? null,
     },
@@ -33,11 +36,19 @@ export const AuditActions = {
   USER_LOGOUT: 'user.logout',
   USER_REGISTER: 'user.register',
   USER_PASSWORD_RESET: 'user.password_reset',
+  USER_PASSWORD_RESET_REQUEST: 'user.password_reset_request',
+  USER_EMAIL_VERIFY: 'user.email_verify',
   
   // User management
   USER_UPDATE: 'user.update',
   USER_DEACTIVATE: 'user.deactivate',
   
+  // API clients
+  API_CLIENT_CREATE: 'api_client.create',
+  API_CLIENT_SECRET_ROTATE: 'api_client.secret_rotate',
+  API_CLIENT_REVOKE: 'api_client.revoke',
+  API_CLIENT_TOKEN_ISSUE: 'api_client.token_issue',
+
   // Organization
   ORG_CREATE: 'organization.create',
   ORG_UPDATE: 'organization.update',
@@ -47,13 +58,65 @@ export const AuditActions = {
   // Profile
   PROFILE_UPDATE: 'profile.update',
   CONSENT_UPDATE: 'consent.update',
+  PROFILE_EXPORT: 'profile.export',
   
   // Products
   PRODUCT_CREATE: 'product.create',
   PRODUCT_UPDATE: 'product.update',
+  PRODUCT_ARCHIVE: 'product.archive',
+  PRODUCT_RESTORE: 'product.restore',
+  PRODUCT_INGREDIENT_ADD: 'product.ingredient_add',
+  PRODUCT_INGREDIENT_UPDATE: 'product.ingredient_update',
+  PRODUCT_INGREDIENT_REMOVE: 'product.ingredient_remove',
+  PRODUCT_IMPORT: 'product.import',
+  INGREDIENT_CREATE: 'ingredient.create',
+  INGREDIENT_UPDATE: 'ingredient.update',
+  PRICE_CHANGE_SCHEDULE: 'price.schedule',
+  PRICE_CHANGE_CANCEL: 'price.cancel',
   MENU_UPDATE: 'menu.update',
+  CONTENT_TRANSLATE: 'content.translate',
+  
+  // Inventory
+  STOCK_ITEM_UPDATE: 'stock.item_update',
+  STOCK_MOVEMENT: 'stock.movement',
+  STOCK_TRANSFER: 'stock.transfer',
   
   // Locations
   LOCATION_CREATE: 'location.create',
   SALES_INSTANCE_CREATE: 'sales_instance.create',
+  SALES_INSTANCE_STOP_CREATE: 'sales_instance.stop_create',
+  SALES_INSTANCE_STOP_DELETE: 'sales_instance.stop_delete',
+  SALES_INSTANCE_SPECIAL_HOURS_UPDATE: 'sales_instance.special_hours_update',
+  SALES_INSTANCE_SPECIAL_HOURS_DELETE: 'sales_instance.special_hours_delete',
+
+  // Events
+  EVENT_CREATE: 'event.create',
+  EVENT_UPDATE: 'event.update',
+  EVENT_JOIN: 'event.join',
+  EVENT_LEAVE: 'event.leave',
+
+  // Orders
+  ORDER_PLACE: 'order.place',
+  ORDER_STATUS_UPDATE: 'order.status_update',
+  ORDER_CANCEL: 'order.cancel',
+
+  // Purchasing
+  CATALOG_ITEM_CREATE: 'catalog_item.create',
+  CATALOG_ITEM_UPDATE: 'catalog_item.update',
+  PURCHASE_ORDER_CREATE: 'purchase_order.create',
+  PURCHASE_ORDER_UPDATE: 'purchase_order.update',
+  PURCHASE_ORDER_DELETE: 'purchase_order.delete',
+  PURCHASE_ORDER_SEND: 'purchase_order.send',
+  PURCHASE_ORDER_CONFIRM: 'purchase_order.confirm',
+  PURCHASE_ORDER_DELIVERY: 'purchase_order.delivery',
+
+  // Vouchers
+  VOUCHER_ISSUE: 'voucher.issue',
+  VOUCHER_REDEEM: 'voucher.redeem',
+  VOUCHER_VOID: 'voucher.void',
+
+  // Catering
+  CATERING_REQUEST: 'catering.request',
+  CATERING_QUOTE: 'catering.quote',
+  CATERING_STATUS_UPDATE: 'catering.status_update',
 } as const;
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { decodeText, parseCsv, toCsv, escapeFormula, unescapeFormula } from './csv.js';
+
+describe('parseCsv', () => {
+  it('detects the delimiter from the header row', () => {
+    expect(parseCsv('name;price\nTacos;8,50\n')).toEqual([
+      ['name', 'price'],
+      ['Tacos', '8,50'],
+    ]);
+    expect(parseCsv('name,price\r\nTacos,8.50')).toEqual([
+      ['name', 'price'],
+      ['Tacos', '8.50'],
+    ]);
+  });
+
+  it('reads quoted fields with delimiters, quotes and line breaks', () => {
+    expect(parseCsv('name;description\n"Tacos; al pastor";"Mit ""Salsa""\nund Ananas"', ';')).toEqual([
+      ['name', 'description'],
+      ['Tacos; al pastor', 'Mit "Salsa"\nund Ananas'],
+    ]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseCsv('a;;c\n;;', ';')).toEqual([
+      ['a', '', 'c'],
+      ['', '', ''],
+    ]);
+  });
+});
+
+describe('toCsv', () => {
+  it('writes UTF-8 with a byte order mark and CRLF line ends', () => {
+    const text = toCsv([
+      ['name', 'price'],
+      ['Jalapeño', '3,00'],
+    ]).toString('utf-8');
+    expect(text).toBe('\uFEFFname;price\r\nJalapeño;3,00\r\n');
+  });
+
+  it('quotes fields that need it and reads back the same rows', () => {
+    const rows = [
+      ['name', 'description'],
+      ['Tacos; al pastor', 'Mit "Salsa"\r\nund Ananas'],
+    ];
+    expect(parseCsv(decodeText(toCsv(rows)))).toEqual(rows);
+  });
+});
+
+describe('decodeText', () => {
+  it('falls back to Windows-1252 for files that are not UTF-8', () => {
+    expect(decodeText(Buffer.from([0x4a, 0x61, 0x6c, 0x61, 0x70, 0x65, 0xf1, 0x6f]))).toBe('Jalapeño');
+  });
+});
+
+describe('formula escaping', () => {
+  it('prefixes cells a spreadsheet would run as a formula', () => {
+    expect(escapeFormula('=HYPERLINK("http://example.com")')).toBe('\'=HYPERLINK("http://example.com")');
+    expect(['+1', '-1', '@SUM(A1)'].map(escapeFormula)).toEqual(["'+1", "'-1", "'@SUM(A1)"]);
+    expect(escapeFormula('Tacos')).toBe('Tacos');
+  });
+
+  it('restores escaped cells and leaves other apostrophes alone', () => {
+    expect(unescapeFormula(escapeFormula('=1+1'))).toBe('=1+1');
+    expect(unescapeFormula("'s Brot")).toBe("'s Brot");
+  });
+});
@@ -0,0 +1,82 @@
+// Minimal RFC 4180 reader and writer. Spreadsheets exported by a German Excel use ';'
+// and often Windows-1252, so both are detected when reading.
+
+export function decodeText(buffer: Buffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer).replace(/^\uFEFF/, '');
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+}
+
+function detectDelimiter(text: string): string {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  return (header.match(/;/g)?.length ?? 0) > (header.match(/,/g)?.length ?? 0) ? ';' : ',';
+}
+
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function quoteField(value: string, delimiter: string): string {
+  return value.includes('"') || value.includes(delimiter) || /[\r\n]/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+// Spreadsheet apps run cells starting with one of these as a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// Prefixes such cells with an apostrophe so they open as plain text
+export function escapeFormula(value: string): string {
+  return FORMULA_START.test(value) ? `'${value}` : value;
+}
+
+// Undoes escapeFormula for cells read back from an exported file
+export function unescapeFormula(value: string): string {
+  return value.startsWith("'") && FORMULA_START.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+// UTF-8 with a byte order mark so Excel picks the right encoding
+export function toCsv(rows: string[][], delimiter = ';'): Buffer {
+  const text = rows.map((row) => row.map((value) => quoteField(value, delimiter)).join(delimiter)).join('\r\n');
+  return Buffer.from(`\uFEFF${text}\r\n`, 'utf-8');
+}
@@ -0,0 +1,24 @@
+export type FieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Dates and Prisma decimals are recorded in their JSON form
+function toAuditValue(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (value !== null && typeof value === 'object' && 'toFixed' in value) return String(value);
+  return value ?? null;
+}
+
+// Field-level diff for audit metadata: only fields whose value actually changed
+export function diffFields<T extends object>(before: T, after: T, fields: Array<keyof T>): FieldChanges {
+  const changes: FieldChanges = {};
+
+  for (const field of fields) {
+    const from = toAuditValue(before[field]);
+    const to = toAuditValue(after[field]);
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[String(field)] = { from, to };
+    }
+  }
+
+  return changes;
+}
@@ -1,2 +1,38 @@
 export { createAuditLog, AuditActions } from './audit.js';
 export { hashPassword, verifyPassword } from './password.js';
+export { generateToken, hashToken } from './token.js';
+export {
+  sendMail,
+  setMailTransport,
+  getMailTransport,
+  MemoryMailTransport,
+  FileMailTransport,
+} from './mail.js';
+export type { MailMessage, MailTransport, SentMail } from './mail.js';
+export {
+  DEFAULT_TIMEZONE,
+  isValidTimeZone,
+  toZonedTime,
+  fromZonedTime,
+  addDays,
+  weekdayOf,
+  isCalendarDate,
+  isTimeOfDay,
+  parseTimeOfDay,
+  isWithinTimeWindow,
+} from './time.js';
+export type { ZonedTime } from './time.js';
+export { diffFields } from './diff.js';
+export { serializableTransaction } from './transaction.js';
+export type { FieldChanges } from './diff.js';
+export {
+  CONTENT_LANGUAGE,
+  SUPPORTED_LANGUAGES,
+  isSupportedLanguage,
+  parseAcceptLanguage,
+  requestLanguages,
+} from './language.js';
+export type { Language } from './language.js';
+export { decodeText, parseCsv, toCsv, escapeFormula, unescapeFormula } from './csv.js';
+export { UNITS, isUnit, convertQuantity } from './units.js';
+export type { Unit } from './units.js';
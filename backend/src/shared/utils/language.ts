@@ -0,0 +1,51 @@
+import { prisma } from '../../config/index.js';
+import type { AuthenticatedRequest } from '../types/index.js';
+
+// Language of the untranslated content fields (price list and site are German)
+export const CONTENT_LANGUAGE = 'de';
+
+export const SUPPORTED_LANGUAGES = ['de', 'es', 'en'] as const;
+export type Language = (typeof SUPPORTED_LANGUAGES)[number];
+
+export function isSupportedLanguage(value: string): value is Language {
+  return (SUPPORTED_LANGUAGES as readonly string[]).includes(value);
+}
+
+// Primary subtags of an Accept-Language header, most preferred first
+export function parseAcceptLanguage(header: string | undefined): string[] {
+  if (!header) return [];
+
+  return header
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.map((param) => param.trim()).find((param) => param.startsWith('q='));
+      return { tag: tag.trim(), quality: q ? Number(q.slice(2)) : 1, index };
+    })
+    .filter(({ tag, quality }) => tag && tag !== '*' && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ tag }) => tag.split('-')[0].toLowerCase());
+}
+
+// Fallback chain for localized content: ?lang, then Accept-Language, then the caller's
+// profile, always ending with the content language. Unsupported values are skipped.
+export async function requestLanguages(req: AuthenticatedRequest): Promise<Language[]> {
+  const candidates: string[] = [];
+
+  if (typeof req.query.lang === 'string') {
+    candidates.push(req.query.lang.split('-')[0].toLowerCase());
+  }
+  candidates.push(...parseAcceptLanguage(req.get('accept-language')));
+
+  if (req.user) {
+    const profile = await prisma.profile.findUnique({
+      where: { userId: req.user.id },
+      select: { language: true },
+    });
+    if (profile) candidates.push(profile.language.toLowerCase());
+  }
+
+  candidates.push(CONTENT_LANGUAGE);
+
+  return [...new Set(candidates.filter(isSupportedLanguage))];
+}
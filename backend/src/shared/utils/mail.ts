@@ -0,0 +1,71 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { env } from '../../config/index.js';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface SentMail extends MailMessage {
+  id: string;
+  from: string;
+  sentAt: Date;
+}
+
+export interface MailTransport {
+  send(message: SentMail): Promise<void>;
+}
+
+// Keeps sent mail in memory - used by tests to read tokens back
+export class MemoryMailTransport implements MailTransport {
+  readonly outbox: SentMail[] = [];
+
+  async send(message: SentMail): Promise<void> {
+    this.outbox.push(message);
+  }
+
+  clear(): void {
+    this.outbox.length = 0;
+  }
+}
+
+// Writes each mail as a JSON file for local development
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: SentMail): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${message.sentAt.toISOString().replace(/[:.]/g, '-')}-${message.id}.json`;
+    await fs.writeFile(path.join(this.directory, fileName), JSON.stringify(message, null, 2));
+  }
+}
+
+function createDefaultTransport(): MailTransport {
+  if (env.MAIL_TRANSPORT === 'memory') {
+    return new MemoryMailTransport();
+  }
+  return new FileMailTransport(env.MAIL_OUTBOX_DIR);
+}
+
+let transport: MailTransport = createDefaultTransport();
+
+export function setMailTransport(next: MailTransport): void {
+  transport = next;
+}
+
+export function getMailTransport(): MailTransport {
+  return transport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await transport.send({
+    ...message,
+    id: crypto.randomUUID(),
+    from: env.MAIL_FROM,
+    sentAt: new Date(),
+  });
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isValidTimeZone,
+  toZonedTime,
+  fromZonedTime,
+  addDays,
+  weekdayOf,
+  isCalendarDate,
+  isTimeOfDay,
+  parseTimeOfDay,
+  isWithinTimeWindow,
+} from './time.js';
+
+describe('toZonedTime', () => {
+  it('reads the wall clock in the given zone', () => {
+    // Monday evening in UTC is already Tuesday in Berlin (CEST, UTC+2)
+    expect(toZonedTime(new Date('2026-10-19T22:30:00Z'), 'Europe/Berlin')).toEqual({
+      date: '2026-10-20',
+      weekday: 2,
+      minutes: 30,
+    });
+  });
+
+  it('follows the winter offset', () => {
+    expect(toZonedTime(new Date('2026-01-15T11:00:00Z'), 'Europe/Berlin').minutes).toBe(12 * 60);
+  });
+});
+
+describe('fromZonedTime', () => {
+  it('turns a local date and time into an instant', () => {
+    expect(fromZonedTime('2026-01-15', 12 * 60, 'Europe/Berlin').toISOString()).toBe('2026-01-15T11:00:00.000Z');
+    expect(fromZonedTime('2026-07-15', 12 * 60, 'Europe/Berlin').toISOString()).toBe('2026-07-15T10:00:00.000Z');
+  });
+
+  it('moves times skipped by the spring DST change past the jump', () => {
+    // 02:30 does not exist on 2026-03-29 in Berlin; 03:30 CEST does
+    expect(fromZonedTime('2026-03-29', 2 * 60 + 30, 'Europe/Berlin').toISOString()).toBe(
+      '2026-03-29T01:30:00.000Z'
+    );
+  });
+
+  it('accepts minutes past midnight as the next day', () => {
+    expect(fromZonedTime('2026-01-15', 24 * 60 + 60, 'Europe/Berlin').toISOString()).toBe('2026-01-16T00:00:00.000Z');
+  });
+});
+
+describe('calendar dates', () => {
+  it('adds days across month and year ends', () => {
+    expect(addDays('2026-02-28', 1)).toBe('2026-03-01');
+    expect(addDays('2026-12-31', 1)).toBe('2027-01-01');
+    expect(addDays('2026-01-01', -1)).toBe('2025-12-31');
+  });
+
+  it('gives the weekday of a date', () => {
+    expect(weekdayOf('2026-10-18')).toBe(0);
+    expect(weekdayOf('2026-10-24')).toBe(6);
+  });
+
+  it('accepts only days that exist', () => {
+    expect(isCalendarDate('2026-02-28')).toBe(true);
+    expect(isCalendarDate('2024-02-29')).toBe(true);
+    expect(isCalendarDate('2025-02-29')).toBe(false);
+    expect(isCalendarDate('2026-02-30')).toBe(false);
+    expect(isCalendarDate('2026-04-31')).toBe(false);
+    expect(isCalendarDate('2026-13-01')).toBe(false);
+    expect(isCalendarDate('2026-1-01')).toBe(false);
+    expect(isCalendarDate('2026-01-01T00:00:00Z')).toBe(false);
+  });
+});
+
+describe('time of day', () => {
+  it('accepts HH:MM on a 24 hour clock', () => {
+    expect(isTimeOfDay('00:00')).toBe(true);
+    expect(isTimeOfDay('23:59')).toBe(true);
+    expect(isTimeOfDay('24:00')).toBe(false);
+    expect(isTimeOfDay('9:30')).toBe(false);
+  });
+
+  it('parses to minutes since midnight', () => {
+    expect(parseTimeOfDay('11:30')).toBe(690);
+    expect(() => parseTimeOfDay('11.30')).toThrow();
+  });
+
+  it('treats windows ending at or before their start as running past midnight', () => {
+    expect(isWithinTimeWindow(12 * 60, 11 * 60, 14 * 60)).toBe(true);
+    expect(isWithinTimeWindow(14 * 60, 11 * 60, 14 * 60)).toBe(false);
+    expect(isWithinTimeWindow(23 * 60, 17 * 60, 2 * 60)).toBe(true);
+    expect(isWithinTimeWindow(60, 17 * 60, 2 * 60)).toBe(true);
+    expect(isWithinTimeWindow(3 * 60, 17 * 60, 2 * 60)).toBe(false);
+  });
+});
+
+describe('isValidTimeZone', () => {
+  it('knows IANA zones only', () => {
+    expect(isValidTimeZone('Europe/Madrid')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+  });
+});
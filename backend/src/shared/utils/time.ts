@@ -0,0 +1,116 @@
+export const DEFAULT_TIMEZONE = 'Europe/Berlin';
+
+export interface ZonedTime {
+  date: string; // YYYY-MM-DD
+  weekday: number; // 0 = Sunday, 6 = Saturday
+  minutes: number; // minutes since local midnight
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall-clock date, weekday and time of an instant in the given IANA time zone
+export function toZonedTime(at: Date, timeZone = DEFAULT_TIMEZONE): ZonedTime {
+  const parts = Object.fromEntries(
+    formatterFor(timeZone)
+      .formatToParts(at)
+      .map((part) => [part.type, part.value])
+  );
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+// Instant at which the wall clock in timeZone shows the given local date and time.
+// Times skipped by a DST change resolve to the equivalent time after the jump.
+export function fromZonedTime(date: string, minutes: number, timeZone = DEFAULT_TIMEZONE): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+
+  // Correct the naive UTC guess by the zone offset, twice to settle across DST changes
+  let instant = wallClock;
+  for (let i = 0; i < 2; i++) {
+    const local = toZonedTime(new Date(instant), timeZone);
+    const [y, m, d] = local.date.split('-').map(Number);
+    const offset = Date.UTC(y, m - 1, d, 0, local.minutes) - instant;
+    instant = wallClock - offset;
+  }
+
+  return new Date(instant);
+}
+
+// Shifts a YYYY-MM-DD date by whole days
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+const CALENDAR_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// YYYY-MM-DD naming a day that exists; Date.parse would accept 2026-02-30
+export function isCalendarDate(value: string): boolean {
+  const match = CALENDAR_DATE.exec(value);
+  if (!match) return false;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+// 0 = Sunday, 6 = Saturday
+export function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export function isTimeOfDay(value: string): boolean {
+  return TIME_OF_DAY.test(value);
+}
+
+// "HH:MM" to minutes since midnight
+export function parseTimeOfDay(value: string): number {
+  const match = TIME_OF_DAY.exec(value);
+  if (!match) {
+    throw new Error(`Invalid time of day: ${value}`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+// True when minutes falls in [from, until); windows with until <= from run past midnight
+export function isWithinTimeWindow(minutes: number, from: number, until: number): boolean {
+  if (from < until) {
+    return minutes >= from && minutes < until;
+  }
+  return minutes >= from || minutes < until;
+}
@@ -0,0 +1,10 @@
+import crypto from 'crypto';
+
+export function generateToken(bytes = 32): string {
+  return crypto.randomBytes(bytes).toString('hex');
+}
+
+// One-way hash for tokens stored in the database; lookups hash the presented value
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
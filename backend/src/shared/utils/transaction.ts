@@ -0,0 +1,26 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../config/index.js';
+import { ConflictError } from '../middleware/error-handler.js';
+
+// Postgres aborts one of two overlapping serializable transactions; rerunning it
+// usually succeeds once the other one has committed
+const MAX_ATTEMPTS = 3;
+
+function isSerializationFailure(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034';
+}
+
+// Runs fn in a serializable transaction, retrying serialization failures a few
+// times before answering 409 instead of a 500
+export async function serializableTransaction<T>(fn: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(fn, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+    } catch (error) {
+      if (!isSerializationFailure(error)) throw error;
+      if (attempt >= MAX_ATTEMPTS) {
+        throw new ConflictError('The request conflicted with a concurrent change, please retry');
+      }
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import { Prisma } from '@prisma/client';
+
+// Units stock, recipe lines and purchase costs are kept in
+export const UNITS = ['pcs', 'kg', 'g', 'l', 'ml'] as const;
+export type Unit = (typeof UNITS)[number];
+
+// Each unit expressed in the base unit of its dimension
+const BASE: Record<Unit, { dimension: 'count' | 'mass' | 'volume'; factor: number }> = {
+  pcs: { dimension: 'count', factor: 1 },
+  g: { dimension: 'mass', factor: 1 },
+  kg: { dimension: 'mass', factor: 1000 },
+  ml: { dimension: 'volume', factor: 1 },
+  l: { dimension: 'volume', factor: 1000 },
+};
+
+export function isUnit(value: string): value is Unit {
+  return (UNITS as readonly string[]).includes(value);
+}
+
+// null when the units measure different things, e.g. pieces and grams
+export function convertQuantity(
+  quantity: Prisma.Decimal.Value,
+  from: Unit,
+  to: Unit
+): Prisma.Decimal | null {
+  if (BASE[from].dimension !== BASE[to].dimension) return null;
+
+  return new Prisma.Decimal(quantity).mul(BASE[from].factor).div(BASE[to].factor);
+}